@@ -0,0 +1,279 @@
+// =============================================================================
+// mcpSovereign SDK - Credit Budget Guard
+// =============================================================================
+// Hard spend caps for autonomous agents. Before a paid call is sent, its cost
+// is predicted from the /pricing table (plus the item price for purchases) and
+// the call is refused if it would break a per-operation, per-session or
+// per-day ceiling. Actual spend is tracked from the X-Credits-Charged header;
+// the predicted cost of calls still in flight is reserved until they settle.
+//
+//   const client = new SovereignClient({
+//     budget: { perSession: 500, perDay: 2000, perOperation: 100 }
+//   });
+
+import type { HttpMethod } from './retry.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface BudgetLimits {
+  /** Max credits for the lifetime of this client */
+  perSession?: number;
+
+  /** Max credits per calendar day (UTC) */
+  perDay?: number;
+
+  /** Max credits for any single call */
+  perOperation?: number;
+
+  /** Fraction of a limit at which a warning is emitted (default: 0.8) */
+  warnAt?: number;
+
+  /** Warning handler (default: console.warn) */
+  onWarning?: (warning: BudgetWarning) => void;
+}
+
+export interface BudgetWarning {
+  window: 'session' | 'day';
+  spent: number;
+  limit: number;
+  message: string;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  predictedCost: number;
+  reason?: string;
+}
+
+export interface BudgetStatus {
+  session: { spent: number; limit: number | null; remaining: number | null };
+  day: { date: string; spent: number; limit: number | null; remaining: number | null };
+  perOperation: number | null;
+}
+
+export interface PricingEntry {
+  method: string;
+  path: string;
+  credits: number;
+  description?: string;
+}
+
+// =============================================================================
+// Pricing Table
+// =============================================================================
+
+export class PricingTable {
+  private entries: { method: string; pattern: RegExp; credits: number }[];
+
+  /**
+   * Build from the `pricing` field of SovereignClient.getPricing
+   */
+  constructor(pricing: Record<string, PricingEntry[]>) {
+    this.entries = Object.values(pricing).flat().map(entry => ({
+      method: entry.method.toUpperCase(),
+      pattern: pathPattern(entry.path),
+      credits: entry.credits
+    }));
+  }
+
+  /**
+   * Endpoint fee for a call (0 if the endpoint is free or unlisted)
+   */
+  predict(method: HttpMethod, path: string): number {
+    const cleanPath = path.split('?')[0];
+    const entry = this.entries.find(p => p.method === method && p.pattern.test(cleanPath));
+    return entry?.credits ?? 0;
+  }
+}
+
+// =============================================================================
+// Budget Guard
+// =============================================================================
+
+export class BudgetGuard {
+  private limits: BudgetLimits;
+  private sessionSpent = 0;
+  private dailySpent: Record<string, number> = {};
+  private warned = new Set<string>();
+  private reserved = 0;  // Predicted cost of calls in flight
+  private pricing: PricingTable | null = null;
+
+  constructor(limits: BudgetLimits) {
+    this.limits = limits;
+  }
+
+  setPricing(pricing: PricingTable): void {
+    this.pricing = pricing;
+  }
+
+  hasPricing(): boolean {
+    return this.pricing !== null;
+  }
+
+  /**
+   * Predicted API fee for a call, from the pricing table (0 if unknown)
+   */
+  predictCost(method: HttpMethod, path: string): number {
+    return this.pricing?.predict(method, path) ?? 0;
+  }
+
+  /**
+   * Check whether a call may go ahead. `extraCost` covers item prices
+   * (products, plots, rent) that are not part of the endpoint fee.
+   */
+  check(method: HttpMethod, path: string, extraCost = 0): BudgetCheck {
+    const predictedCost = this.predictCost(method, path) + extraCost;
+    const { perOperation, perSession, perDay } = this.limits;
+
+    // Without a price table we can't tell free calls from paid ones (reads
+    // such as GET /sync/status are charged too). The client exempts the
+    // calls it knows are free before asking.
+    if (!this.pricing) {
+      return { allowed: false, predictedCost, reason: 'Pricing is unavailable, so the cost of this call is unknown' };
+    }
+
+    if (predictedCost <= 0) {
+      return { allowed: true, predictedCost };
+    }
+
+    if (perOperation !== undefined && predictedCost > perOperation) {
+      return {
+        allowed: false,
+        predictedCost,
+        reason: `Call would cost ${predictedCost} credits, over the per-operation limit of ${perOperation}`
+      };
+    }
+
+    const session = this.sessionSpent + this.reserved;
+    if (perSession !== undefined && session + predictedCost > perSession) {
+      return {
+        allowed: false,
+        predictedCost,
+        reason: `Call would cost ${predictedCost} credits; session budget has ${perSession - session} of ${perSession} left`
+      };
+    }
+
+    const today = this.spentToday() + this.reserved;
+    if (perDay !== undefined && today + predictedCost > perDay) {
+      return {
+        allowed: false,
+        predictedCost,
+        reason: `Call would cost ${predictedCost} credits; daily budget has ${perDay - today} of ${perDay} left`
+      };
+    }
+
+    return { allowed: true, predictedCost };
+  }
+
+  /**
+   * Hold a call's predicted cost against the limits until it settles.
+   * Returns the release function (safe to call more than once).
+   */
+  reserve(credits: number): () => void {
+    if (!credits || credits <= 0) return () => {};
+
+    this.reserved += credits;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.reserved -= credits;
+    };
+  }
+
+  /**
+   * Record credits actually charged (from X-Credits-Charged)
+   */
+  recordSpend(credits: number, at: Date = new Date()): void {
+    if (!credits || credits <= 0) return;
+
+    this.sessionSpent += credits;
+    const day = dayKey(at);
+    this.dailySpent[day] = (this.dailySpent[day] || 0) + credits;
+
+    this.maybeWarn('session', this.sessionSpent, this.limits.perSession);
+    this.maybeWarn('day', this.dailySpent[day], this.limits.perDay, day);
+  }
+
+  /**
+   * Seed a day's spend from an earlier session (e.g. the local ledger),
+   * so daily limits survive restarts. Does not count toward the session.
+   */
+  seedDailySpend(day: string, credits: number): void {
+    this.dailySpent[day] = (this.dailySpent[day] || 0) + credits;
+  }
+
+  getStatus(): BudgetStatus {
+    const { perSession, perDay, perOperation } = this.limits;
+    const today = this.spentToday();
+
+    return {
+      session: {
+        spent: this.sessionSpent,
+        limit: perSession ?? null,
+        remaining: perSession !== undefined ? Math.max(0, perSession - this.sessionSpent) : null
+      },
+      day: {
+        date: dayKey(new Date()),
+        spent: today,
+        limit: perDay ?? null,
+        remaining: perDay !== undefined ? Math.max(0, perDay - today) : null
+      },
+      perOperation: perOperation ?? null
+    };
+  }
+
+  private spentToday(): number {
+    return this.dailySpent[dayKey(new Date())] || 0;
+  }
+
+  private maybeWarn(window: 'session' | 'day', spent: number, limit: number | undefined, scope = ''): void {
+    if (limit === undefined || limit <= 0) return;
+
+    const threshold = this.limits.warnAt ?? 0.8;
+    const exhausted = spent >= limit;
+    const level = exhausted ? 'exhausted' : spent >= limit * threshold ? 'approaching' : null;
+    if (!level) return;
+
+    // Warn once per window and level
+    const key = `${window}:${scope}:${level}`;
+    if (this.warned.has(key)) return;
+    this.warned.add(key);
+
+    const warning: BudgetWarning = {
+      window,
+      spent,
+      limit,
+      message: exhausted
+        ? `Credit budget exhausted: ${spent}/${limit} credits spent this ${window}`
+        : `Credit budget at ${Math.round((spent / limit) * 100)}%: ${spent}/${limit} credits spent this ${window}`
+    };
+
+    (this.limits.onWarning || (w => console.warn(`⚠️ ${w.message}`)))(warning);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Turn a pricing path like '/products/:id/purchase' into a regex.
+ * A leading '/api/v1' is dropped so it matches client-relative paths.
+ */
+function pathPattern(path: string): RegExp {
+  const escaped = path
+    .replace(/^\/api\/v\d+/, '')
+    .split('/')
+    .map(segment => /^(:\w+|\{\w+\}|\*)$/.test(segment)
+      ? '[^/]+'
+      : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('/');
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,221 @@
+// =============================================================================
+// mcpSovereign SDK - Config Schema & Migrations
+// =============================================================================
+// One versioned config.json per profile, shared by the setup CLI, the
+// AgentRuntime and the MCP server. Older files come in two shapes:
+//
+//   setup CLI (v0)    { version: '1.0.0', api_url, auth_token, setup_complete, ... }
+//   runtime   (v1)    { apiUrl, authToken, storePath, ... }   (no version)
+//
+// Because both tools wrote the same file, a legacy file may mix the two.
+// readConfig() upgrades either shape (or a mix) to the current version,
+// validates it and writes the upgraded file back in place.
+
+import { dirname, join } from 'path';
+import { writeFileAtomic } from './storage.js';
+import type { EncryptedBlob } from './vault.js';
+
+export const CONFIG_VERSION = 2;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RuntimeConfig {
+  // Schema version (see CONFIG_VERSION)
+  version: number;
+
+  // API configuration
+  apiUrl: string;
+
+  // Authentication
+  walletAddress: string | null;
+  authToken: string | null;
+  tokenExpiresAt: string | null;
+
+  // Agent info (cached)
+  agentId: string | null;
+  agentName: string | null;
+  trade: string | null;
+
+  // Local store path
+  storePath: string;
+
+  // Timestamps
+  createdAt: string;
+  lastLogin: string | null;
+  lastSync: string | null;
+
+  // Setup & onboarding progress
+  setupComplete: boolean;
+  onboardingComplete: boolean;
+  starterPackClaimed: boolean;
+
+  // Runtime flags
+  isPuppet?: boolean;  // Platform-controlled account
+
+  // Encrypted token, wallet address and wallet key (when the vault is enabled)
+  vault?: EncryptedBlob | null;
+}
+
+export class ConfigError extends Error {
+  readonly path: string;
+  readonly issues: string[];
+
+  constructor(path: string, issues: string[]) {
+    super(`Invalid config ${path}: ${issues.join('; ')}`);
+    this.name = 'ConfigError';
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+// =============================================================================
+// Defaults & Migration
+// =============================================================================
+
+/**
+ * Fresh config for a profile directory
+ */
+export function defaultConfig(dir: string): RuntimeConfig {
+  return {
+    version: CONFIG_VERSION,
+    apiUrl: process.env.MCPSOVEREIGN_API_URL || 'https://api.mcpsovereign.com/api/v1',
+    walletAddress: null,
+    authToken: null,
+    tokenExpiresAt: null,
+    agentId: null,
+    agentName: null,
+    trade: null,
+    storePath: join(dir, 'store.json'),
+    createdAt: new Date().toISOString(),
+    lastLogin: null,
+    lastSync: null,
+    setupComplete: false,
+    onboardingComplete: false,
+    starterPackClaimed: false,
+  };
+}
+
+/**
+ * Upgrade any known config shape to the current version.
+ * `migrated` is true when the result differs from what was on disk.
+ */
+export function migrateConfig(
+  raw: unknown,
+  dir: string,
+  path = join(dir, 'config.json')
+): { config: RuntimeConfig; migrated: boolean } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(path, ['config must be a JSON object']);
+  }
+
+  const source = raw as Record<string, unknown>;
+  const version = typeof source.version === 'number' ? source.version : 0;
+
+  if (version > CONFIG_VERSION) {
+    throw new ConfigError(path, [
+      `config version ${version} was written by a newer SDK (this one reads up to ${CONFIG_VERSION})`
+    ]);
+  }
+  if (version === CONFIG_VERSION) {
+    return { config: { ...defaultConfig(dir), ...source } as RuntimeConfig, migrated: false };
+  }
+
+  // v0/v1: prefer camelCase (runtime) values, fall back to snake_case (setup)
+  const pick = <T>(camel: string, snake: string | null, fallback: T): T =>
+    (source[camel] ?? (snake ? source[snake] : undefined) ?? fallback) as T;
+  const defaults = defaultConfig(dir);
+
+  const config: RuntimeConfig = {
+    ...defaults,
+    apiUrl: pick('apiUrl', 'api_url', defaults.apiUrl),
+    walletAddress: pick('walletAddress', 'wallet_address', null),
+    authToken: pick('authToken', 'auth_token', null),
+    tokenExpiresAt: pick('tokenExpiresAt', null, null),
+    agentId: pick('agentId', 'agent_id', null),
+    agentName: pick('agentName', null, null),
+    trade: pick('trade', null, null),
+    // Setup kept products in <dir>/store.json, the runtime in storePath
+    storePath: pick('storePath', null, defaults.storePath),
+    createdAt: pick('createdAt', 'created_at', defaults.createdAt),
+    lastLogin: pick('lastLogin', null, null),
+    lastSync: pick('lastSync', 'last_sync', null),
+    setupComplete: pick('setupComplete', 'setup_complete', false),
+    onboardingComplete: pick('onboardingComplete', 'onboarding_complete', false),
+    starterPackClaimed: pick('starterPackClaimed', 'starter_pack_claimed', false),
+  };
+  if (source.isPuppet !== undefined) config.isPuppet = source.isPuppet as boolean;
+  if (source.vault) config.vault = source.vault as EncryptedBlob;
+
+  return { config, migrated: true };
+}
+
+/**
+ * Throw a ConfigError listing every field with the wrong type
+ */
+export function validateConfig(config: RuntimeConfig, path: string): void {
+  const issues: string[] = [];
+  const expect = (field: keyof RuntimeConfig, type: 'string' | 'boolean', nullable = false) => {
+    const value = config[field];
+    if (nullable && value === null) return;
+    if (typeof value !== type || (type === 'string' && value === '' && !nullable)) {
+      issues.push(`${field} must be a${type === 'boolean' ? ' boolean' : nullable ? ' string or null' : ' non-empty string'}`);
+    }
+  };
+
+  expect('apiUrl', 'string');
+  expect('storePath', 'string');
+  expect('createdAt', 'string');
+  for (const field of ['walletAddress', 'authToken', 'tokenExpiresAt', 'agentId', 'agentName', 'trade', 'lastLogin', 'lastSync'] as const) {
+    expect(field, 'string', true);
+  }
+  for (const field of ['setupComplete', 'onboardingComplete', 'starterPackClaimed'] as const) {
+    expect(field, 'boolean');
+  }
+  if (config.isPuppet !== undefined && typeof config.isPuppet !== 'boolean') {
+    issues.push('isPuppet must be a boolean');
+  }
+  if (config.vault && (typeof config.vault !== 'object' || typeof config.vault.ciphertext !== 'string')) {
+    issues.push('vault must be an encrypted blob');
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(path, issues);
+  }
+}
+
+// =============================================================================
+// File Access
+// =============================================================================
+
+/**
+ * Read, migrate and validate a config file. Legacy files are upgraded in
+ * place. Returns null when the file does not exist.
+ */
+export async function readConfig(filePath: string): Promise<RuntimeConfig | null> {
+  const fs = await import('fs');
+  if (!fs.existsSync(filePath)) return null;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(filePath, [`not valid JSON (${error instanceof Error ? error.message : error})`]);
+  }
+
+  const { config, migrated } = migrateConfig(raw, dirname(filePath), filePath);
+  validateConfig(config, filePath);
+
+  if (migrated) {
+    await writeConfig(filePath, config);
+  }
+  return config;
+}
+
+/**
+ * Write a config file atomically (owner-only permissions: it may hold a token)
+ */
+export async function writeConfig(filePath: string, config: RuntimeConfig): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify({ ...config, version: CONFIG_VERSION }, null, 2), 0o600);
+}
@@ -0,0 +1,314 @@
+// =============================================================================
+// mcpSovereign SDK - Deliverable Packaging
+// =============================================================================
+// A product's deliverable (one file or a whole directory) is packed into a
+// deterministic .tar.gz: entries sorted by path, timestamps zeroed, owners
+// blank and modes normalised to 0644/0755. Packing the same content twice
+// gives byte-identical archives, so the SHA-256 in `content_hash` identifies
+// the content itself and can be re-checked before every push.
+//
+//   const pkg = await packageDeliverable('./my-skill', './dist/my-skill.tar.gz');
+//   pkg.content_hash;    // sha256 hex of the archive
+//   pkg.file_size_bytes; // archive size
+
+import { createHash } from 'crypto';
+import { basename, dirname, join, relative, resolve, sep } from 'path';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface DeliverablePackage {
+  source_path: string;
+  archive_path: string;
+  content_hash: string;     // SHA-256 (hex) of the archive
+  file_size_bytes: number;  // Archive size
+  file_count: number;
+  packaged_at: string;
+}
+
+export class IntegrityError extends Error {
+  readonly expected: { sha256?: string; size?: number };
+  readonly actual: { sha256: string; size: number };
+
+  constructor(message: string, expected: IntegrityError['expected'], actual: IntegrityError['actual']) {
+    super(message);
+    this.name = 'IntegrityError';
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+// Never shipped to buyers
+const IGNORED_NAMES = ['.git', '.DS_Store'];
+
+const BLOCK_SIZE = 512;
+
+// =============================================================================
+// Packaging
+// =============================================================================
+
+/**
+ * Pack a file or directory into a deterministic .tar.gz and hash it.
+ * Paths are recorded absolute, so they still work from another directory.
+ * An archive written inside the source is left out of itself.
+ */
+export async function packageDeliverable(sourcePath: string, archivePath: string): Promise<DeliverablePackage> {
+  const fs = await import('fs');
+  const source = resolve(sourcePath);
+  const archive = resolve(archivePath);
+  const entries = collectEntries(fs, source, archive);
+
+  fs.mkdirSync(dirname(archive), { recursive: true });
+  const tmpPath = `${archive}.${process.pid}.tmp`;
+
+  try {
+    await pipeline(...archiveStages(fs, entries), fs.createWriteStream(tmpPath));
+    fs.renameSync(tmpPath, archive);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+
+  const { sha256, size } = await hashFile(archive);
+  return {
+    source_path: source,
+    archive_path: archive,
+    content_hash: sha256,
+    file_size_bytes: size,
+    file_count: entries.filter(entry => !entry.directory).length,
+    packaged_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Hash and size of the archive packageDeliverable(sourcePath, archivePath)
+ * would write, without writing it
+ */
+export async function hashDeliverable(
+  sourcePath: string,
+  archivePath: string
+): Promise<{ content_hash: string; file_size_bytes: number }> {
+  const fs = await import('fs');
+  const hash = createHash('sha256');
+  let size = 0;
+
+  const entries = collectEntries(fs, resolve(sourcePath), resolve(archivePath));
+  await pipeline(...archiveStages(fs, entries), new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback();
+    }
+  }));
+
+  return { content_hash: hash.digest('hex'), file_size_bytes: size };
+}
+
+/**
+ * Stream a file through SHA-256
+ */
+export async function hashFile(filePath: string): Promise<{ sha256: string; size: number }> {
+  const fs = await import('fs');
+  const hash = createHash('sha256');
+  let size = 0;
+
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    size += (chunk as Buffer).length;
+  }
+
+  return { sha256: hash.digest('hex'), size };
+}
+
+/**
+ * Stream downloaded bytes to a temp file while hashing them, and move the
+ * file into place only if the SHA-256 and size match. Aborts as soon as the
+ * download grows past the expected size.
+ */
+export async function saveVerified(
+  body: AsyncIterable<Uint8Array>,
+  destPath: string,
+  expected: { sha256?: string; size?: number }
+): Promise<{ sha256: string; size: number }> {
+  const fs = await import('fs');
+  const hash = createHash('sha256');
+  const tmpPath = `${destPath}.${process.pid}.part`;
+  let size = 0;
+
+  const verifier = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      if (expected.size !== undefined && size > expected.size) {
+        callback(new IntegrityError(
+          `Download is larger than the published ${expected.size} bytes`,
+          expected,
+          { sha256: '', size }
+        ));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+
+  fs.mkdirSync(dirname(destPath), { recursive: true });
+
+  try {
+    await pipeline(Readable.from(body), verifier, fs.createWriteStream(tmpPath, { mode: 0o600 }));
+
+    const actual = { sha256: hash.digest('hex'), size };
+    if (expected.size !== undefined && actual.size !== expected.size) {
+      throw new IntegrityError(`Download is ${actual.size} bytes, expected ${expected.size}`, expected, actual);
+    }
+    if (expected.sha256 && actual.sha256 !== expected.sha256.toLowerCase()) {
+      throw new IntegrityError(`Download hash ${actual.sha256} does not match ${expected.sha256}`, expected, actual);
+    }
+
+    fs.renameSync(tmpPath, destPath);
+    return actual;
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+// =============================================================================
+// Tar Writer (ustar)
+// =============================================================================
+
+interface TarEntry {
+  name: string;        // POSIX path inside the archive
+  path: string;        // Path on disk
+  directory: boolean;
+  executable: boolean;
+  size: number;
+}
+
+function collectEntries(fs: typeof import('fs'), sourcePath: string, archivePath: string): TarEntry[] {
+  const root = fs.lstatSync(sourcePath);
+  const rootName = basename(sourcePath);
+
+  if (root.isFile()) {
+    return [fileEntry(rootName, sourcePath, root)];
+  }
+  if (!root.isDirectory()) {
+    throw new Error(`Deliverable must be a regular file or directory: ${sourcePath}`);
+  }
+
+  const entries: TarEntry[] = [];
+  const walk = (dir: string) => {
+    for (const name of fs.readdirSync(dir).sort()) {
+      const fullPath = join(dir, name);
+      if (IGNORED_NAMES.includes(name) || fullPath === archivePath) continue;
+
+      const stat = fs.lstatSync(fullPath);
+      const archiveName = [rootName, ...relative(sourcePath, fullPath).split(sep)].join('/');
+
+      if (stat.isDirectory()) {
+        entries.push({ name: archiveName + '/', path: fullPath, directory: true, executable: true, size: 0 });
+        walk(fullPath);
+      } else if (stat.isFile()) {
+        entries.push(fileEntry(archiveName, fullPath, stat));
+      } else {
+        throw new Error(`Unsupported file type in deliverable (symlinks are not packaged): ${fullPath}`);
+      }
+    }
+  };
+
+  entries.push({ name: rootName + '/', path: sourcePath, directory: true, executable: true, size: 0 });
+  walk(sourcePath);
+  return entries;
+}
+
+function archiveStages(fs: typeof import('fs'), entries: TarEntry[]): [Readable, Transform, Transform] {
+  return [Readable.from(tarStream(fs, entries)), createGzip({ level: 9 }), normalizeGzipHeader()];
+}
+
+function fileEntry(name: string, path: string, stat: import('fs').Stats): TarEntry {
+  return { name, path, directory: false, executable: (stat.mode & 0o111) !== 0, size: stat.size };
+}
+
+async function* tarStream(fs: typeof import('fs'), entries: TarEntry[]): AsyncGenerator<Buffer> {
+  for (const entry of entries) {
+    yield tarHeader(entry);
+    if (entry.directory) continue;
+
+    let written = 0;
+    for await (const chunk of fs.createReadStream(entry.path)) {
+      written += (chunk as Buffer).length;
+      yield chunk as Buffer;
+    }
+    if (written !== entry.size) {
+      throw new Error(`File changed while packaging: ${entry.path}`);
+    }
+
+    const padding = (BLOCK_SIZE - (entry.size % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) yield Buffer.alloc(padding);
+  }
+
+  // End of archive: two zero blocks
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+function tarHeader(entry: TarEntry): Buffer {
+  const header = Buffer.alloc(BLOCK_SIZE);
+  const { name, prefix } = splitName(entry.name);
+
+  header.write(name, 0, 100, 'utf-8');
+  writeOctal(header, entry.directory || entry.executable ? 0o755 : 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);                         // uid
+  writeOctal(header, 0, 116, 8);                         // gid
+  writeOctal(header, entry.size, 124, 12);
+  writeOctal(header, 0, 136, 12);                        // mtime
+  header.fill(' ', 148, 156);                            // checksum placeholder
+  header.write(entry.directory ? '5' : '0', 156, 1, 'ascii');
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  header.write(prefix, 345, 155, 'utf-8');
+
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+
+  return header;
+}
+
+function splitName(path: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(path) <= 100) return { name: path, prefix: '' };
+
+  // ustar stores long paths as prefix (155) + '/' + name (100)
+  const trimmed = path.endsWith('/') ? path.slice(0, -1) : path;
+  for (let i = trimmed.indexOf('/'); i !== -1; i = trimmed.indexOf('/', i + 1)) {
+    const prefix = trimmed.slice(0, i);
+    const name = path.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { name, prefix };
+    }
+  }
+  throw new Error(`Path too long for a tar archive: ${path}`);
+}
+
+function writeOctal(buffer: Buffer, value: number, offset: number, length: number): void {
+  buffer.write(value.toString(8).padStart(length - 1, '0') + '\0', offset, length, 'ascii');
+}
+
+/**
+ * zlib stamps the build platform into the gzip header (OS byte); pin it so
+ * archives hash the same everywhere
+ */
+function normalizeGzipHeader(): Transform {
+  let first = true;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (first && chunk.length > 9) {
+        chunk[9] = 0xff;  // OS: unknown
+      }
+      first = false;
+      callback(null, chunk);
+    }
+  });
+}
@@ -0,0 +1,194 @@
+// =============================================================================
+// mcpSovereign SDK - Typed Errors
+// =============================================================================
+// Every failed ApiResponse can be turned into a SovereignError subclass, so
+// callers can branch with `instanceof` (or on the `code` discriminant) instead
+// of string-matching error codes.
+//
+//   try {
+//     await client.purchaseProduct(id);     // client created with throwOnError
+//   } catch (error) {
+//     if (error instanceof InsufficientCreditsError) { ... }
+//   }
+
+import type { ApiResponse } from './index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SovereignErrorCode =
+  | 'INSUFFICIENT_CREDITS'
+  | 'AUTH_EXPIRED'
+  | 'RATE_LIMITED'
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'BUDGET_EXCEEDED'
+  | 'API_ERROR';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+type ErrorPayload = NonNullable<ApiResponse<unknown>['error']>;
+
+// Server codes (and client-side codes) that map onto each error class
+const AUTH_CODES = ['NOT_AUTHENTICATED', 'UNAUTHORIZED', 'AUTH_EXPIRED', 'TOKEN_EXPIRED', 'INVALID_TOKEN'];
+const CREDIT_CODES = ['INSUFFICIENT_CREDITS', 'INSUFFICIENT_BALANCE', 'PAYMENT_REQUIRED'];
+const RATE_LIMIT_CODES = ['RATE_LIMITED', 'TOO_MANY_REQUESTS'];
+const VALIDATION_CODES = ['VALIDATION_FAILED', 'VALIDATION_ERROR', 'INVALID_INPUT', 'BAD_REQUEST'];
+const NOT_FOUND_CODES = ['NOT_FOUND', 'PRODUCT_NOT_FOUND', 'PLOT_NOT_FOUND'];
+
+// =============================================================================
+// Error Classes
+// =============================================================================
+
+export class SovereignError extends Error {
+  readonly code: SovereignErrorCode;
+  /** The raw code reported by the API (or the client) */
+  readonly apiCode: string;
+  readonly status?: number;
+  readonly endpoint?: string;
+
+  constructor(code: SovereignErrorCode, payload: ErrorPayload, status?: number) {
+    super(payload.message);
+    this.name = new.target.name;
+    this.code = code;
+    this.apiCode = payload.code;
+    this.status = status;
+    this.endpoint = payload.endpoint;
+  }
+}
+
+export class InsufficientCreditsError extends SovereignError {
+  declare readonly code: 'INSUFFICIENT_CREDITS';
+  /** Credits the call needed, when the API reports it */
+  readonly required?: number;
+
+  constructor(payload: ErrorPayload, status?: number) {
+    super('INSUFFICIENT_CREDITS', payload, status);
+    this.required = payload.required;
+  }
+}
+
+export class AuthExpiredError extends SovereignError {
+  declare readonly code: 'AUTH_EXPIRED';
+
+  constructor(payload: ErrorPayload, status?: number) {
+    super('AUTH_EXPIRED', payload, status);
+  }
+}
+
+export class RateLimitedError extends SovereignError {
+  declare readonly code: 'RATE_LIMITED';
+  readonly retryAfterMs?: number;
+
+  constructor(payload: ErrorPayload, status?: number, retryAfterMs?: number) {
+    super('RATE_LIMITED', payload, status);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ValidationError extends SovereignError {
+  declare readonly code: 'VALIDATION_FAILED';
+  readonly fields: FieldError[];
+
+  constructor(payload: ErrorPayload, status?: number) {
+    super('VALIDATION_FAILED', payload, status);
+    this.fields = normalizeFieldErrors(payload.details);
+  }
+}
+
+export class NotFoundError extends SovereignError {
+  declare readonly code: 'NOT_FOUND';
+
+  constructor(payload: ErrorPayload, status?: number) {
+    super('NOT_FOUND', payload, status);
+  }
+}
+
+export class NetworkError extends SovereignError {
+  declare readonly code: 'NETWORK_ERROR' | 'ABORTED';
+
+  constructor(payload: ErrorPayload, code: 'NETWORK_ERROR' | 'ABORTED' = 'NETWORK_ERROR') {
+    super(code, payload);
+  }
+}
+
+export class TimeoutError extends SovereignError {
+  declare readonly code: 'TIMEOUT';
+
+  constructor(payload: ErrorPayload) {
+    super('TIMEOUT', payload);
+  }
+}
+
+export class BudgetExceededError extends SovereignError {
+  declare readonly code: 'BUDGET_EXCEEDED';
+
+  constructor(payload: ErrorPayload) {
+    super('BUDGET_EXCEEDED', payload);
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Convert a failed ApiResponse into the matching SovereignError subclass
+ */
+export function toSovereignError(response: ApiResponse<unknown>): SovereignError {
+  const payload: ErrorPayload = response.error || { code: 'UNKNOWN', message: 'Request failed' };
+  const { status } = response;
+  const code = payload.code;
+
+  if (code === 'TIMEOUT') return new TimeoutError(payload);
+  if (code === 'NETWORK_ERROR') return new NetworkError(payload);
+  if (code === 'ABORTED') return new NetworkError(payload, 'ABORTED');
+  if (code === 'BUDGET_EXCEEDED') return new BudgetExceededError(payload);
+  if (CREDIT_CODES.includes(code) || status === 402) return new InsufficientCreditsError(payload, status);
+  if (AUTH_CODES.includes(code) || status === 401) return new AuthExpiredError(payload, status);
+  if (RATE_LIMIT_CODES.includes(code) || status === 429) {
+    return new RateLimitedError(payload, status, response.retryAfterMs);
+  }
+  if (VALIDATION_CODES.includes(code) || status === 400 || status === 422) return new ValidationError(payload, status);
+  if (NOT_FOUND_CODES.includes(code) || status === 404) return new NotFoundError(payload, status);
+
+  return new SovereignError('API_ERROR', payload, status);
+}
+
+/**
+ * Return the data of a successful response, or throw the typed error
+ */
+export function unwrap<T>(response: ApiResponse<T>): T {
+  if (!response.success) {
+    throw toSovereignError(response);
+  }
+  return response.data as T;
+}
+
+export function isSovereignError(error: unknown): error is SovereignError {
+  return error instanceof SovereignError;
+}
+
+function normalizeFieldErrors(details: unknown): FieldError[] {
+  if (Array.isArray(details)) {
+    return details
+      .filter((d): d is { field?: string; path?: string; message?: string } => !!d && typeof d === 'object')
+      .map(d => ({ field: d.field ?? d.path ?? '', message: d.message ?? '' }));
+  }
+
+  if (details && typeof details === 'object') {
+    return Object.entries(details as Record<string, unknown>).map(([field, message]) => ({
+      field,
+      message: String(message)
+    }));
+  }
+
+  return [];
+}
@@ -0,0 +1,132 @@
+// =============================================================================
+// mcpSovereign SDK - Idempotency Keys
+// =============================================================================
+// Credit-spending calls send an `Idempotency-Key` header so the server can
+// deduplicate a request that was replayed after a timeout or crash.
+//
+// Keys are scoped to a logical operation (e.g. "purchaseProduct:<id>") and
+// persisted next to the local store while the outcome is unknown. A process
+// that crashed mid-purchase will pick up the same key on its next attempt,
+// so the server returns the original result instead of charging twice.
+// Every change re-reads the file under its lock and is written atomically,
+// so processes sharing the file never drop each other's keys.
+
+import { randomUUID } from 'crypto';
+import { withFileLock, writeFileAtomic } from './storage.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PendingOperation {
+  key: string;
+  created_at: string;
+}
+
+interface PendingOperationsFile {
+  version: number;
+  pending: Record<string, PendingOperation>;
+}
+
+// Error codes where we never got a definitive answer from the API
+export const AMBIGUOUS_ERROR_CODES = ['NETWORK_ERROR', 'HTTP_ERROR', 'TIMEOUT', 'ABORTED'];
+
+// Pending keys older than this are discarded instead of being reused
+const PENDING_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Idempotency Key Store
+// =============================================================================
+
+export class IdempotencyKeyStore {
+  private pending: Record<string, PendingOperation> = {};
+  private filePath: string;
+  private fs: typeof import('fs') | null = null;
+
+  constructor(storePath: string) {
+    this.filePath = IdempotencyKeyStore.pathFor(storePath);
+  }
+
+  /**
+   * Location of the pending-operations file for a given local store path
+   */
+  static pathFor(storePath: string): string {
+    return storePath.replace(/\.json$/, '') + '.pending-ops.json';
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Get the key for an operation, reusing a pending one if it exists
+   */
+  async acquire(operation: string): Promise<string> {
+    return withFileLock(this.filePath, async () => {
+      await this.load();
+
+      const existing = this.pending[operation];
+      if (existing && Date.now() - new Date(existing.created_at).getTime() < PENDING_KEY_TTL_MS) {
+        return existing.key;
+      }
+
+      const key = randomUUID();
+      this.pending[operation] = { key, created_at: new Date().toISOString() };
+      await this.save();
+      return key;
+    });
+  }
+
+  /**
+   * Forget an operation's key once the server has given a definitive answer
+   */
+  async release(operation: string): Promise<void> {
+    await withFileLock(this.filePath, async () => {
+      await this.load();
+      if (!this.pending[operation]) return;
+
+      delete this.pending[operation];
+      await this.save();
+    });
+  }
+
+  /**
+   * Operations that were started but never confirmed
+   */
+  async getPending(): Promise<Record<string, PendingOperation>> {
+    await this.load();
+    return { ...this.pending };
+  }
+
+  // Always re-read: other processes may share the same pending-operations file.
+  // Changes call this (and save) while holding the file's lock.
+  private async load(): Promise<void> {
+    try {
+      this.fs = await import('fs');
+      if (this.fs.existsSync(this.filePath)) {
+        const data = JSON.parse(this.fs.readFileSync(this.filePath, 'utf-8')) as PendingOperationsFile;
+        this.pending = data.pending || {};
+      } else {
+        this.pending = {};
+      }
+    } catch {
+      this.pending = {};
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (!this.fs) {
+      this.fs = await import('fs');
+    }
+
+    if (Object.keys(this.pending).length === 0) {
+      if (this.fs.existsSync(this.filePath)) {
+        this.fs.unlinkSync(this.filePath);
+      }
+      return;
+    }
+
+    const data: PendingOperationsFile = { version: 1, pending: this.pending };
+    await writeFileAtomic(this.filePath, JSON.stringify(data, null, 2));
+  }
+}
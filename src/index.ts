@@ -3,9 +3,73 @@
 // =============================================================================
 // Agents build their store locally (free), sync to marketplace (costs credits)
 
+import { basename, dirname, join } from 'path';
+import {
+  resolveRetryPolicy,
+  maxRetriesFor,
+  shouldRetry,
+  computeRetryDelay,
+  parseRetryAfter,
+  sleep,
+  type HttpMethod,
+  type ResolvedRetryPolicy,
+  type RetryFailure,
+  type RetryPolicy
+} from './retry.js';
+import { IdempotencyKeyStore, AMBIGUOUS_ERROR_CODES } from './idempotency.js';
+import {
+  runRequestMiddleware,
+  runResponseMiddleware,
+  runErrorMiddleware,
+  serializeBody,
+  type FetchLike,
+  type Middleware,
+  type RequestContext
+} from './middleware.js';
+import { toSovereignError, SovereignError } from './errors.js';
+import { paginate, toPage, type PaginateOptions } from './pagination.js';
+import { BudgetGuard, PricingTable, type BudgetLimits, type BudgetCheck } from './budget.js';
+import { CreditLedger, type LedgerQuery, type ReconciliationReport } from './ledger.js';
+import type { MessageSigner, WalletSigner } from './signers.js';
+import { getJwtExpiry } from './jwt.js';
+import { withFileLock, rotateBackups, writeFileAtomic, backupPath, type FileLockOptions } from './storage.js';
+import {
+  snapshotOf,
+  remoteSnapshot,
+  threeWayMerge,
+  MERGE_FIELDS,
+  type MergeField,
+  type MergeOptions,
+  type ProductConflict,
+  type ProductSnapshot
+} from './merge.js';
+import { packageDeliverable, hashDeliverable, hashFile, saveVerified, IntegrityError } from './deliverables.js';
+import { manifestChecksum, signManifest, canonicalJson, sha256Hex, type ManifestSignature } from './manifest.js';
+import {
+  STORE_VERSION,
+  StoreError,
+  StoreVersionError,
+  parseStore,
+  migrateStore,
+  validateStore,
+  mergeStoreChanges,
+  type StoreRecovery
+} from './store-schema.js';
+import { readStoreDirectory, writeStoreDirectory, isSafeId, STORE_FILE, PRODUCTS_DIR, DELIVERABLE_ARCHIVE } from './store-directory.js';
+
 // Re-export runtime module (portable identity management)
 export { AgentRuntime, createRuntime } from './runtime.js';
-export type { RuntimeConfig, RuntimeOptions } from './runtime.js';
+export type { RuntimeConfig, RuntimeOptions, ProfileSummary } from './runtime.js';
+export { DEFAULT_PROFILE, PROFILE_ENV_VAR } from './profiles.js';
+export {
+  CONFIG_VERSION,
+  ConfigError,
+  defaultConfig,
+  migrateConfig,
+  validateConfig,
+  readConfig,
+  writeConfig
+} from './config.js';
 
 // Re-export onboarding module
 export * from './onboarding/types.js';
@@ -15,6 +79,112 @@ export { OnboardingWizard } from './onboarding/wizard.js';
 export { AgentHelperMCP, HELPER_TOOLS } from './mcp-helper/index.js';
 export type { MCPTool } from './mcp-helper/index.js';
 
+// Re-export retry policy
+export { DEFAULT_RETRY_POLICY } from './retry.js';
+export type { RetryPolicy, HttpMethod } from './retry.js';
+
+// Re-export idempotency key store
+export { IdempotencyKeyStore } from './idempotency.js';
+export type { PendingOperation } from './idempotency.js';
+
+// Re-export typed errors
+export {
+  SovereignError,
+  InsufficientCreditsError,
+  AuthExpiredError,
+  RateLimitedError,
+  ValidationError,
+  NotFoundError,
+  NetworkError,
+  TimeoutError,
+  BudgetExceededError,
+  toSovereignError,
+  unwrap,
+  isSovereignError
+} from './errors.js';
+export type { SovereignErrorCode, FieldError } from './errors.js';
+
+// Re-export budget guard
+export { BudgetGuard, PricingTable } from './budget.js';
+export type { BudgetLimits, BudgetWarning, BudgetStatus, BudgetCheck, PricingEntry } from './budget.js';
+
+// Re-export credit ledger
+export { CreditLedger } from './ledger.js';
+export type { LedgerEntry, LedgerQuery, LedgerDiscrepancy, ReconciliationReport } from './ledger.js';
+
+// Re-export wallet signers
+export { KeySigner, loadDefaultSigner, defaultKeyFilePath, verifyMessage } from './signers.js';
+export type { MessageSigner, WalletSigner, SignerOptions, SignatureScheme, AddressType, BitcoinNetwork } from './signers.js';
+
+// Re-export credential vault
+export { CredentialVault, encryptWithPassphrase, decryptWithPassphrase } from './vault.js';
+export type { EncryptedBlob, VaultSecrets, ScryptParams } from './vault.js';
+
+// Re-export crash-safe storage helpers
+export { FileLockError, withFileLock, writeFileAtomic, rotateBackups, backupPath } from './storage.js';
+export type { FileLockOptions, LockInfo } from './storage.js';
+
+// Re-export local store schema
+export {
+  STORE_VERSION,
+  STORE_MIGRATIONS,
+  StoreError,
+  StoreVersionError,
+  migrateStore,
+  validateStore,
+  parseStore,
+  mergeStoreChanges
+} from './store-schema.js';
+export type { StoreMigration, StoreRecovery } from './store-schema.js';
+
+// Re-export directory store format
+export {
+  STORE_FILE,
+  PRODUCT_FILE,
+  PRODUCTS_DIR,
+  STATE_FILE,
+  DELIVERABLE_ARCHIVE,
+  readStoreDirectory,
+  writeStoreDirectory,
+  parseFrontmatter,
+  formatFrontmatter
+} from './store-directory.js';
+
+// Re-export three-way merge
+export { MERGE_FIELDS, threeWayMerge, snapshotOf, remoteSnapshot } from './merge.js';
+export type {
+  MergeField,
+  MergeStrategy,
+  MergeOptions,
+  MergeResult,
+  ProductConflict,
+  ProductSnapshot
+} from './merge.js';
+
+// Re-export deliverable packaging
+export { packageDeliverable, hashDeliverable, hashFile, saveVerified, IntegrityError } from './deliverables.js';
+export type { DeliverablePackage } from './deliverables.js';
+
+// Re-export manifest checksums & signatures
+export {
+  canonicalJson,
+  manifestChecksum,
+  manifestSigningMessage,
+  signManifest,
+  verifyManifest
+} from './manifest.js';
+export type { ManifestSignature, ManifestVerification } from './manifest.js';
+
+// Re-export JWT helpers
+export { decodeJwtPayload, getJwtExpiry } from './jwt.js';
+
+// Re-export pagination helpers
+export { paginate, paginatePages, normalizePagination } from './pagination.js';
+export type { Page, PageInfo, PaginateOptions, PageFetcher } from './pagination.js';
+
+// Re-export transport middleware types
+export type { FetchLike, Middleware, RequestContext } from './middleware.js';
+
 // Re-export starter kit
 export {
   SOVEREIGN_STARTER_PACK,
@@ -33,6 +203,33 @@ export interface SovereignConfig {
   baseUrl?: string;
   authToken?: string;
   localStorePath?: string;  // Where to store local data
+  retry?: RetryPolicy | false;  // Retry/backoff policy (false disables retries)
+  timeoutMs?: number;           // Per-attempt request timeout (default: 30s, 0 disables)
+  fetch?: FetchLike;            // Custom fetch implementation (proxies, test doubles)
+  middleware?: Middleware[];    // Request/response/error interceptors, run in order
+  throwOnError?: boolean;       // Throw SovereignError subclasses instead of returning success: false
+  budget?: BudgetLimits;        // Hard credit ceilings (session/day/operation)
+  ledger?: boolean | { path?: string };  // Local spend ledger (default: on, next to the store)
+  store?: LocalStoreOptions;    // Local store locking and backups
+  merge?: MergeOptions;         // How push resolves products edited both locally and remotely
+  manifestSigner?: WalletSigner | (() => WalletSigner | null);  // Signs pushed manifests
+  refreshAuth?: () => Promise<string | null>;  // Supplies a fresh token near expiry or after a 401
+  refreshLeewayMs?: number;     // Refresh this long before the token's exp (default: 5 min)
+}
+
+/**
+ * Per-call options accepted by every SovereignClient API method
+ */
+export interface RequestOptions {
+  signal?: AbortSignal;   // Cancel the call (returns an ABORTED error)
+  timeoutMs?: number;     // Override the client-wide timeout for this call
+}
+
+/**
+ * Options for credit-spending calls that support a dry run
+ */
+export interface DryRunOptions extends RequestOptions {
+  dryRun: true;  // Estimate the cost only - no mutating endpoint is called
 }
 
 export interface ApiResponse<T> {
@@ -43,11 +240,16 @@ export interface ApiResponse<T> {
     message: string;
     required?: number;
     endpoint?: string;
+    details?: unknown;  // Field-level validation errors
   };
+  status?: number;        // HTTP status of the final attempt
+  retryAfterMs?: number;  // From Retry-After, when the server sent one
   headers?: {
     creditsCharged?: number;
     creditsRemaining?: number;
   };
+  idempotencyKey?: string;  // Sent with credit-spending calls
+  warnings?: string[];      // The call succeeded, but something local went wrong (e.g. saving the store)
 }
 
 export interface Agent {
@@ -148,6 +350,8 @@ export interface Product {
   rating_sum: number;
   rating_count: number;
   avg_rating?: number;
+  content_hash?: string | null;     // SHA-256 of the deliverable, as published by the seller
+  file_size_bytes?: number | null;
   created_at: string;
 }
 
@@ -168,6 +372,25 @@ export interface ProductPurchase {
   purchased_at: string;
 }
 
+export interface ProductReview {
+  id: string;
+  product_id: string;
+  purchase_id?: string;
+  reviewer_id?: string;
+  rating: number;
+  comment?: string | null;
+  created_at: string;
+}
+
+export interface ProductUpdate {
+  product_id: string;
+  status?: Product['status'];
+  moderation_notes?: string | null;
+  sales_count?: number;
+  avg_rating?: number | null;
+  updated_at?: string;
+}
+
 export interface StoreProfile {
   name?: string;
   tagline?: string;
@@ -192,10 +415,75 @@ export interface LocalProduct {
   delivery_payload?: object;
   content_hash?: string;
   file_size_bytes?: number;
-  status: 'draft' | 'ready' | 'synced' | 'modified';
+  status: 'draft' | 'ready' | 'synced' | 'modified' | 'deleted';  // deleted: tombstone awaiting push
   created_at: string;
   updated_at: string;
   synced_at?: string;
+  deleted_at?: string;
+
+  // Marketplace data merged in by pull
+  marketplace_status?: Product['status'];
+  moderation_notes?: string | null;
+  sales?: LocalSale[];
+  reviews?: ProductReview[];
+
+  // Three-way merge state
+  base?: ProductSnapshot;         // Marketplace values as of the last sync
+  conflicts?: ProductConflict[];  // Unresolved; the product is held back from push
+
+  sync_error?: ProductSyncError;  // Last push failure (cleared when a push succeeds)
+
+  deliverable?: {                 // Set by packageDeliverable(); content_hash/file_size_bytes describe the archive
+    source_path: string;
+    archive_path: string;
+    file_count: number;
+    packaged_at: string;
+  };
+}
+
+export interface ProductSyncError {
+  message: string;
+  attempts: number;         // Consecutive failed pushes
+  last_attempt_at: string;
+}
+
+export interface LocalSale {
+  purchase_id: string;
+  buyer_id: string;
+  price_paid: string;
+  seller_received: string;
+  purchased_at: string;
+}
+
+export interface LibraryDownload {
+  path: string;              // Where the verified deliverable was saved
+  content_hash: string;      // SHA-256 of the saved file
+  file_size_bytes: number;
+  verified: boolean;         // false only when saved with allowUnverified
+  downloaded_at: string;
+}
+
+export interface LibraryEntry {
+  purchase_id: string;
+  product_id: string;
+  product_name: string | null;
+  price_paid: string | null;
+  purchased_at: string | null;
+  delivery_status: ProductPurchase['delivery_status'] | null;
+  download_token: string | null;
+  download_expires_at: string | null;
+  download_count: number;
+  max_downloads: number;
+  synced_at: string | null;      // Last refreshed from getMyPurchases
+  download?: LibraryDownload;    // Latest verified copy on this machine
+}
+
+export interface LibraryWarning {
+  purchase_id: string;
+  product_id: string;
+  product_name: string | null;
+  kind: 'expiring' | 'expired' | 'downloads_low' | 'downloads_exhausted';
+  message: string;
 }
 
 export interface LocalStore {
@@ -209,6 +497,9 @@ export interface LocalStore {
     products_synced: number;
   }[];
   last_sync?: string;
+  pull_cursor?: string;  // `since` for the next incremental pull
+  library?: LibraryEntry[];  // Products bought from the marketplace
+  recovery?: StoreRecovery;  // Set when the store was restored after corruption
 }
 
 export interface SyncManifest {
@@ -232,7 +523,8 @@ export interface SyncManifest {
     local_updated_at: string;
   }[];
   store_profile?: StoreProfile;
-  checksum: string;
+  checksum: string;                 // SHA-256 of the canonical manifest (see manifestChecksum)
+  signature?: ManifestSignature;    // Present when pushed with a wallet signer
 }
 
 export interface SyncResult {
@@ -252,8 +544,8 @@ export interface PullResult {
   since: string;
   sync_map: { local_id: string; remote_id: string }[];
   new_purchases: ProductPurchase[];
-  new_reviews: object[];
-  product_updates: object[];
+  new_reviews: ProductReview[];
+  product_updates: ProductUpdate[];
   overall_stats: {
     total_products: number;
     active_products: number;
@@ -263,56 +555,249 @@ export interface PullResult {
   };
 }
 
+export interface CostEstimate {
+  dry_run: true;
+  operation: string;
+  method: string;
+  path: string;
+  manifest?: SyncManifest;     // What push would send
+  pricing_available: boolean;  // false if /pricing could not be loaded
+  fee: number;                 // Endpoint fee from /pricing
+  item_cost: number;           // Product price, plot price or rent
+  predicted_cost: number;
+  current_balance: number | null;
+  projected_balance: number | null;
+  budget?: BudgetCheck;        // Present when a budget is configured
+}
+
 // =============================================================================
 // Local Store Manager (runs locally, no credits needed)
 // =============================================================================
 
+// 'json': one sovereign-store.json file; 'directory': store.md + products/<id>/product.md
+export type StoreFormat = 'json' | 'directory';
+
+export interface LocalStoreOptions {
+  format?: StoreFormat;      // Default: 'directory' if the store path is an existing directory, else 'json'
+  backups?: number;          // Previous versions kept as <store>.bak.N (default: 3, 0 disables)
+  lock?: FileLockOptions;    // Advisory lock shared with other processes using the store
+  retryFailed?: boolean;     // Re-send products that failed on the next push (default: true)
+  maxSyncAttempts?: number;  // Hold a product back after this many failures (default: 3)
+  expiryWarningMs?: number;  // Warn this long before a download token expires (default: 24h)
+  lowDownloadsAt?: number;   // Warn when this many downloads or fewer remain (default: 1)
+}
+
 export class LocalStoreManager {
   private store: LocalStore;
   private storePath: string;
-  private fs: typeof import('fs') | null = null;
-
-  constructor(storePath?: string) {
-    this.storePath = storePath || './sovereign-store.json';
+  private backups: number;
+  private lockOptions: FileLockOptions;
+  private retryFailed: boolean;
+  private maxSyncAttempts: number;
+  private expiryWarningMs: number;
+  private lowDownloadsAt: number;
+  private format: StoreFormat | undefined;
+  private base: LocalStore;  // The store as last read from or written to disk
+  private writtenIds = new Set<string>();  // Products on disk in a directory store, as far as we know
+  private loadError: StoreError | null = null;  // save() refuses to overwrite a store it could not read
+
+  constructor(storePath?: string, options: LocalStoreOptions = {}) {
+    this.storePath = (storePath || './sovereign-store.json').replace(/(.)[\\/]+$/, '$1');
+    this.format = options.format;
+    this.backups = options.backups ?? 3;
+    this.lockOptions = options.lock ?? {};
+    this.retryFailed = options.retryFailed ?? true;
+    this.maxSyncAttempts = options.maxSyncAttempts ?? 3;
+    this.expiryWarningMs = options.expiryWarningMs ?? 24 * 60 * 60 * 1000;
+    this.lowDownloadsAt = options.lowDownloadsAt ?? 1;
     this.store = this.getDefaultStore();
+    this.base = this.getDefaultStore();
+  }
+
+  getStorePath(): string {
+    return this.storePath;
   }
 
   private getDefaultStore(): LocalStore {
     return {
-      version: '1.0.0',
+      version: STORE_VERSION,
       profile: {},
       products: [],
       sync_history: []
     };
   }
 
-  // Load store from disk
+  // Load store from disk, migrating older versions. An unreadable JSON file is
+  // quarantined and the newest loadable backup is used instead; a directory
+  // store is left for the user to fix (it lives in git).
   async load(): Promise<void> {
+    await this.loadFromDisk();
+    this.base = structuredClone(this.store);
+  }
+
+  private async loadFromDisk(): Promise<void> {
+    const fs = await import('fs');
+    this.loadError = null;
+
+    if (!fs.existsSync(this.storePath)) {
+      this.store = this.getDefaultStore();
+      return;
+    }
+
+    if (await this.getFormat() === 'directory') {
+      try {
+        const { store } = migrateStore(await readStoreDirectory(this.storePath), this.storePath);
+        validateStore(store, this.storePath);
+        this.store = store;
+        this.writtenIds = new Set(store.products.map(p => p.local_id));
+      } catch (error) {
+        if (error instanceof StoreError) this.loadError = error;
+        throw error;
+      }
+      return;
+    }
+
     try {
-      this.fs = await import('fs');
-      if (this.fs.existsSync(this.storePath)) {
-        const data = this.fs.readFileSync(this.storePath, 'utf-8');
-        this.store = JSON.parse(data);
+      this.store = parseStore(fs.readFileSync(this.storePath, 'utf-8'), this.storePath).store;
+    } catch (error) {
+      if (error instanceof StoreVersionError) {
+        this.loadError = error;
+        throw error;
       }
-    } catch {
-      this.store = this.getDefaultStore();
+      if (!(error instanceof StoreError)) throw error;  // I/O failure: leave the file alone
+      await this.quarantine(error.issues);
     }
   }
 
-  // Save store to disk
+  /**
+   * Details of the last quarantine, if the store file was found corrupt.
+   * Kept in the store until clearRecovery().
+   */
+  getRecovery(): StoreRecovery | null {
+    return this.store.recovery ? { ...this.store.recovery } : null;
+  }
+
+  // Dismiss the recovery notice
+  clearRecovery(): void {
+    delete this.store.recovery;
+  }
+
+  // Save store to disk (atomic, under the store lock; throws on failure).
+  // Saves other processes made since our last load or save are merged in.
   async save(): Promise<void> {
-    try {
-      if (this.fs) {
-        this.fs.writeFileSync(this.storePath, JSON.stringify(this.store, null, 2));
+    await this.writeStore(this.storePath, await this.getFormat());
+  }
+
+  // Write the store to another path, e.g. to convert it between formats
+  async exportTo(targetPath: string, format: StoreFormat): Promise<void> {
+    await this.writeStore(targetPath, format);
+  }
+
+  async getFormat(): Promise<StoreFormat> {
+    if (!this.format) {
+      const fs = await import('fs');
+      this.format = fs.existsSync(this.storePath) && fs.statSync(this.storePath).isDirectory() ? 'directory' : 'json';
+    }
+    return this.format;
+  }
+
+  private async writeStore(path: string, format: StoreFormat): Promise<void> {
+    if (this.loadError) {
+      throw this.loadError;
+    }
+
+    const ownStore = path === this.storePath;
+    const lockPath = format === 'directory' ? join(path, STORE_FILE) : path;
+
+    await withFileLock(lockPath, async () => {
+      // Another process saved since we last read or wrote: keep its changes too
+      if (ownStore) {
+        const latest = await this.readLatest(format);
+        if (latest && canonicalJson(latest) !== canonicalJson(this.base)) {
+          this.store = mergeStoreChanges(this.base, this.store, latest);
+        }
+      }
+
+      if (format === 'directory') {
+        // Directory stores are versioned in git, so no .bak rotation. Only
+        // products removed through this manager lose their folder.
+        const ids = new Set(this.store.products.map(p => p.local_id));
+        const removed = ownStore ? [...this.writtenIds].filter(id => !ids.has(id)) : [];
+        await writeStoreDirectory(path, this.store, removed);
+        if (ownStore) this.writtenIds = ids;
       } else {
-        this.fs = await import('fs');
-        this.fs.writeFileSync(this.storePath, JSON.stringify(this.store, null, 2));
+        await rotateBackups(path, this.backups);
+        await writeFileAtomic(path, JSON.stringify(this.store, null, 2));
+      }
+    }, this.lockOptions);
+
+    if (ownStore) this.base = structuredClone(this.store);
+  }
+
+  // The store as currently on disk (null if missing or unreadable)
+  private async readLatest(format: StoreFormat): Promise<LocalStore | null> {
+    const fs = await import('fs');
+    if (!fs.existsSync(this.storePath)) return null;
+
+    try {
+      if (format === 'directory') {
+        const { store } = migrateStore(await readStoreDirectory(this.storePath), this.storePath);
+        validateStore(store, this.storePath);
+        return store;
       }
+      return parseStore(fs.readFileSync(this.storePath, 'utf-8'), this.storePath).store;
     } catch (error) {
-      console.error('Failed to save store:', error);
+      if (error instanceof StoreVersionError) throw error;  // Never write over a newer SDK's store
+      return null;
     }
   }
 
+  // Move the corrupt file aside and write the newest loadable backup (or an
+  // empty store) in its place, so the next process to start sees it too
+  private async quarantine(issues: string[]): Promise<void> {
+    const fs = await import('fs');
+    const quarantinedPath = `${this.storePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+    await withFileLock(this.storePath, async () => {
+      // Another process may have recovered the file while we waited for the lock
+      if (fs.existsSync(this.storePath)) {
+        try {
+          this.store = parseStore(fs.readFileSync(this.storePath, 'utf-8'), this.storePath).store;
+          return;
+        } catch (error) {
+          if (error instanceof StoreVersionError) {
+            this.loadError = error;
+            throw error;
+          }
+        }
+        fs.renameSync(this.storePath, quarantinedPath);
+      }
+
+      this.store = this.getDefaultStore();
+      let restoredFrom: string | null = null;
+
+      for (let n = 1; n <= this.backups; n++) {
+        const candidate = backupPath(this.storePath, n);
+        if (!fs.existsSync(candidate)) continue;
+        try {
+          this.store = parseStore(fs.readFileSync(candidate, 'utf-8'), candidate).store;
+          restoredFrom = candidate;
+          break;
+        } catch {
+          // Try the next older backup
+        }
+      }
+
+      this.store.recovery = {
+        quarantined_path: quarantinedPath,
+        restored_from: restoredFrom,
+        issues,
+        recovered_at: new Date().toISOString()
+      };
+      await writeFileAtomic(this.storePath, JSON.stringify(this.store, null, 2));
+    }, this.lockOptions);
+  }
+
   // Get all products
   getProducts(): LocalProduct[] {
     return [...this.store.products];
@@ -336,34 +821,147 @@ export class LocalStoreManager {
     return newProduct;
   }
 
-  // Update product (local only - FREE)
+  // Update product (local only - FREE). Tombstoned products can't be edited.
+  // Only draft <-> ready status changes are accepted here; sync results set
+  // the other statuses and deletion goes through deleteProduct().
   updateProduct(localId: string, updates: Partial<LocalProduct>): LocalProduct | null {
     const index = this.store.products.findIndex(p => p.local_id === localId);
     if (index === -1) return null;
 
     const existing = this.store.products[index];
+    if (existing.status === 'deleted') return null;
+
+    const status = updates.status === 'draft' || updates.status === 'ready' ? updates.status : existing.status;
     const updated: LocalProduct = {
       ...existing,
       ...updates,
       local_id: existing.local_id, // Can't change ID
       updated_at: new Date().toISOString(),
-      status: existing.remote_id ? 'modified' : existing.status
+      // Edits to a published product always need pushing
+      status: existing.remote_id ? 'modified' : status
     };
     this.store.products[index] = updated;
     return updated;
   }
 
-  // Delete product (local only - FREE)
+  // Delete product (local only - FREE). Published products are kept as a
+  // tombstone until the next push removes them from the marketplace.
   deleteProduct(localId: string): boolean {
     const index = this.store.products.findIndex(p => p.local_id === localId);
     if (index === -1) return false;
-    this.store.products.splice(index, 1);
+
+    const existing = this.store.products[index];
+    if (!existing.remote_id) {
+      this.store.products.splice(index, 1);
+    } else if (existing.status !== 'deleted') {
+      const now = new Date().toISOString();
+      this.store.products[index] = { ...existing, status: 'deleted', deleted_at: now, updated_at: now };
+    }
     return true;
   }
 
-  // Mark product as ready to sync
+  // Undo a pending deletion (the product is pushed again as an update)
+  restoreProduct(localId: string): LocalProduct | null {
+    const product = this.store.products.find(p => p.local_id === localId);
+    if (!product || product.status !== 'deleted') return null;
+
+    delete product.deleted_at;
+    product.status = 'modified';
+    product.updated_at = new Date().toISOString();
+    return product;
+  }
+
+  // Mark product as ready to sync (also re-queues a product held back after
+  // failures, including a pending deletion)
   markReady(localId: string): LocalProduct | null {
-    return this.updateProduct(localId, { status: 'ready' });
+    const tombstone = this.store.products.find(p => p.local_id === localId && p.status === 'deleted');
+    const product = tombstone ?? this.updateProduct(localId, { status: 'ready' });
+    if (product) delete product.sync_error;
+    return product;
+  }
+
+  // Pack a file or directory as the product's deliverable and record its hash and size
+  async packageDeliverable(localId: string, sourcePath: string, archivePath?: string): Promise<LocalProduct | null> {
+    const product = this.getProduct(localId);
+    if (!product || product.status === 'deleted') return null;
+
+    // Directory stores keep the archive in the product's folder (git-ignored)
+    const defaultArchive = await this.getFormat() === 'directory'
+      ? join(this.storePath, PRODUCTS_DIR, localId, DELIVERABLE_ARCHIVE)
+      : join(dirname(this.storePath), 'deliverables', `${localId}.tar.gz`);
+    const pkg = await packageDeliverable(sourcePath, archivePath ?? defaultArchive);
+    return this.updateProduct(localId, {
+      content_hash: pkg.content_hash,
+      file_size_bytes: pkg.file_size_bytes,
+      deliverable: {
+        source_path: pkg.source_path,
+        archive_path: pkg.archive_path,
+        file_count: pkg.file_count,
+        packaged_at: pkg.packaged_at
+      }
+    });
+  }
+
+  // Re-pack (or re-hash) the deliverables of products about to be pushed so
+  // content_hash matches what is actually sold. The archive is only rewritten
+  // when its contents changed. Products with a problem get a sync_error and
+  // are returned so the push can leave them out.
+  async revalidateDeliverables(): Promise<{ local_id: string; error: string }[]> {
+    const fs = await import('fs');
+    const problems: { local_id: string; error: string }[] = [];
+
+    for (const product of this.getUnsyncedProducts()) {
+      const deliverable = product.deliverable;
+      if (!deliverable || product.status === 'deleted' || this.isHeldBack(product) || product.conflicts?.length) continue;
+
+      try {
+        let current: { content_hash: string; file_size_bytes: number };
+        if (fs.existsSync(deliverable.source_path)) {
+          current = await hashDeliverable(deliverable.source_path, deliverable.archive_path);
+          if (current.content_hash !== product.content_hash || !fs.existsSync(deliverable.archive_path)) {
+            const pkg = await packageDeliverable(deliverable.source_path, deliverable.archive_path);
+            current = pkg;
+            deliverable.file_count = pkg.file_count;
+            deliverable.packaged_at = pkg.packaged_at;
+          }
+        } else if (fs.existsSync(deliverable.archive_path)) {
+          const { sha256, size } = await hashFile(deliverable.archive_path);
+          current = { content_hash: sha256, file_size_bytes: size };
+        } else {
+          problems.push({ local_id: product.local_id, error: `Deliverable not found: ${deliverable.source_path}` });
+          continue;
+        }
+
+        product.content_hash = current.content_hash;
+        product.file_size_bytes = current.file_size_bytes;
+      } catch (error) {
+        problems.push({ local_id: product.local_id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const now = new Date().toISOString();
+    for (const problem of problems) {
+      recordSyncError(this.store.products.find(p => p.local_id === problem.local_id)!, problem.error, now);
+    }
+    return problems;
+  }
+
+  // Failed products are left out of the push when retries are off or exhausted
+  isHeldBack(product: LocalProduct): boolean {
+    return !!product.sync_error && (!this.retryFailed || product.sync_error.attempts >= this.maxSyncAttempts);
+  }
+
+  // Products whose last push failed
+  getSyncErrors(): { local_id: string; name: string; status: LocalProduct['status']; held_back: boolean; error: ProductSyncError }[] {
+    return this.store.products
+      .filter(p => p.sync_error)
+      .map(p => ({
+        local_id: p.local_id,
+        name: p.name,
+        status: p.status,
+        held_back: this.isHeldBack(p),
+        error: { ...p.sync_error! }
+      }));
   }
 
   // Get store profile
@@ -376,31 +974,126 @@ export class LocalStoreManager {
     this.store.profile = { ...this.store.profile, ...profile };
   }
 
-  // Get products that need syncing
+  // Get products that need syncing (including pending deletions)
   getUnsyncedProducts(): LocalProduct[] {
     return this.store.products.filter(p =>
-      p.status === 'ready' || p.status === 'modified'
+      p.status === 'ready' || p.status === 'modified' || p.status === 'deleted'
     );
   }
 
-  // Get sync statistics
-  getSyncStats(): { total: number; synced: number; pending: number; drafts: number } {
+  // Get sync statistics (pending includes deletions)
+  getSyncStats(): {
+    total: number;
+    synced: number;
+    pending: number;
+    drafts: number;
+    deleting: number;
+    conflicts: number;
+    failed: number;
+    held_back: number;
+  } {
     const products = this.store.products;
     return {
       total: products.length,
       synced: products.filter(p => p.status === 'synced').length,
-      pending: products.filter(p => p.status === 'ready' || p.status === 'modified').length,
-      drafts: products.filter(p => p.status === 'draft').length
+      pending: products.filter(p => p.status === 'ready' || p.status === 'modified' || p.status === 'deleted').length,
+      drafts: products.filter(p => p.status === 'draft').length,
+      deleting: products.filter(p => p.status === 'deleted').length,
+      conflicts: products.filter(p => p.conflicts?.length).length,
+      failed: products.filter(p => p.sync_error).length,
+      held_back: products.filter(p => this.isHeldBack(p)).length
     };
   }
 
-  // Generate sync manifest
-  generateSyncManifest(agentId: string): SyncManifest {
+  // Products with remote edits that must be checked before the next push
+  needsRemoteCheck(): boolean {
+    return this.store.products.some(p => p.remote_id && p.status === 'modified');
+  }
+
+  // Three-way merge marketplace copies into published products
+  mergeRemote(remoteProducts: Product[], options: MergeOptions = {}): {
+    merged: number;
+    updated_from_remote: number;
+    conflicts: number;
+  } {
+    const remoteById = new Map(remoteProducts.map(p => [p.id, p]));
+    const summary = { merged: 0, updated_from_remote: 0, conflicts: 0 };
+
+    for (const product of this.store.products) {
+      if (product.status !== 'synced' && product.status !== 'modified') continue;
+      const remote = product.remote_id ? remoteById.get(product.remote_id) : undefined;
+      if (!remote) continue;
+
+      // Products synced before base snapshots existed: an unmodified copy is its own base
+      const base = product.base ?? (product.status === 'synced' ? snapshotOf(product) : undefined);
+      const theirs = remoteSnapshot(remote);
+      const result = threeWayMerge(base, snapshotOf(product), theirs, options);
+
+      Object.assign(product, result.merged);
+      product.base = theirs;
+      if (result.conflicts.length > 0) {
+        product.conflicts = result.conflicts;
+        product.status = 'modified';
+      } else {
+        delete product.conflicts;
+        product.status = result.kept_local.length > 0 ? 'modified' : 'synced';
+      }
+
+      summary.merged++;
+      if (result.taken_from_remote.length > 0) summary.updated_from_remote++;
+      if (result.conflicts.length > 0) summary.conflicts++;
+    }
+
+    return summary;
+  }
+
+  // Products waiting for manual conflict resolution
+  getConflicts(): { local_id: string; name: string; conflicts: ProductConflict[] }[] {
+    return this.store.products
+      .filter(p => p.conflicts?.length)
+      .map(p => ({ local_id: p.local_id, name: p.name, conflicts: [...p.conflicts!] }));
+  }
+
+  // Settle one conflicting field: keep the local value, take the remote one, or set a new value
+  resolveConflict(
+    localId: string,
+    field: MergeField,
+    resolution: 'local' | 'remote' | { value: unknown }
+  ): LocalProduct | null {
+    const product = this.store.products.find(p => p.local_id === localId);
+    const conflict = product?.conflicts?.find(c => c.field === field);
+    if (!product || !conflict) return null;
+
+    const fields = product as unknown as Record<MergeField, unknown>;
+    if (resolution === 'remote') {
+      fields[field] = conflict.remote;
+    } else if (resolution !== 'local') {
+      fields[field] = resolution.value;
+    }
+
+    product.conflicts = product.conflicts!.filter(c => c !== conflict);
+    if (product.conflicts.length === 0) {
+      delete product.conflicts;
+      const base = product.base;
+      product.status = base && MERGE_FIELDS.every(f => product[f] === base[f]) ? 'synced' : 'modified';
+    }
+    product.updated_at = new Date().toISOString();
+    return product;
+  }
+
+  // Generate sync manifest; `skip` products are left unchanged this time
+  generateSyncManifest(agentId: string, skip: string[] = []): SyncManifest {
     const products = this.store.products
       .filter(p => p.status !== 'draft')
       .map(p => {
         let action: 'create' | 'update' | 'delete' | 'unchanged';
-        if (!p.remote_id && p.status === 'ready') {
+        if (this.isHeldBack(p) || skip.includes(p.local_id)) {
+          action = 'unchanged';  // Held back until markReady()
+        } else if (p.status === 'deleted') {
+          action = 'delete';
+        } else if (p.conflicts?.length) {
+          action = 'unchanged';  // Held back until resolveConflict()
+        } else if (!p.remote_id && p.status === 'ready') {
           action = 'create';
         } else if (p.remote_id && p.status === 'modified') {
           action = 'update';
@@ -412,7 +1105,7 @@ export class LocalStoreManager {
           local_id: p.local_id,
           remote_id: p.remote_id,
           action,
-          data: action !== 'unchanged' ? {
+          data: action === 'create' || action === 'update' ? {
             name: p.name,
             description: p.description,
             category_id: p.category_id,
@@ -426,16 +1119,15 @@ export class LocalStoreManager {
         };
       });
 
-    const manifest: SyncManifest = {
-      version: '1.0.0',
+    const manifest: Omit<SyncManifest, 'checksum'> = {
+      version: '2.0.0',
       agent_id: agentId,
       timestamp: new Date().toISOString(),
       products,
-      store_profile: this.store.profile,
-      checksum: this.generateChecksum(products)
+      store_profile: this.store.profile
     };
 
-    return manifest;
+    return { ...manifest, checksum: manifestChecksum(manifest) };
   }
 
   // Apply sync results from server
@@ -447,6 +1139,8 @@ export class LocalStoreManager {
         product.remote_id = created.remote_id;
         product.status = 'synced';
         product.synced_at = results.timestamp;
+        product.base = snapshotOf(product);
+        delete product.sync_error;
       }
     }
 
@@ -456,60 +1150,335 @@ export class LocalStoreManager {
       if (product) {
         product.status = 'synced';
         product.synced_at = results.timestamp;
+        product.base = snapshotOf(product);
+        delete product.sync_error;
       }
     }
 
+    // Record failures
+    for (const failure of results.results.errors) {
+      const product = this.store.products.find(p => p.local_id === failure.local_id);
+      if (product) recordSyncError(product, failure.error, results.timestamp);
+    }
+
+    // Purge tombstones the marketplace has confirmed (reported by local or remote ID)
+    const deleted = new Set(results.results.deleted);
+    this.store.products = this.store.products.filter(p =>
+      p.status !== 'deleted' || !(deleted.has(p.local_id) || (p.remote_id && deleted.has(p.remote_id)))
+    );
+
     // Record sync history
     this.store.sync_history.push({
       id: results.sync_id,
       direction: 'push',
       timestamp: results.timestamp,
-      products_synced: results.results.created.length + results.results.updated.length
+      products_synced: results.results.created.length + results.results.updated.length + results.results.deleted.length
     });
     this.store.last_sync = results.timestamp;
   }
 
-  private generateId(): string {
-    return 'local_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
+  // Merge pulled marketplace data into the store. Returns what was applied;
+  // entries for products this store doesn't know are counted as unmatched.
+  applyPullResults(result: PullResult): {
+    relinked: number;
+    sales: number;
+    reviews: number;
+    updates: number;
+    unmatched: number;
+  } {
+    const summary = { relinked: 0, sales: 0, reviews: 0, updates: 0, unmatched: 0 };
+    const byRemoteId = (remoteId: string) => this.store.products.find(p => p.remote_id === remoteId);
+
+    // Re-link products whose push reached the server but whose result was lost
+    for (const link of result.sync_map) {
+      const product = this.store.products.find(p => p.local_id === link.local_id);
+      if (!product || product.remote_id === link.remote_id) continue;
+
+      product.remote_id = link.remote_id;
+      if (product.status === 'ready') {
+        // Re-send local fields as an update rather than creating a duplicate
+        product.status = 'modified';
+      }
+      summary.relinked++;
+    }
+
+    for (const purchase of result.new_purchases) {
+      const product = byRemoteId(purchase.product_id);
+      if (!product) {
+        summary.unmatched++;
+        continue;
+      }
+      product.sales = product.sales ?? [];
+      if (product.sales.some(sale => sale.purchase_id === purchase.id)) continue;
+
+      product.sales.push({
+        purchase_id: purchase.id,
+        buyer_id: purchase.buyer_id,
+        price_paid: purchase.price_paid,
+        seller_received: purchase.seller_received,
+        purchased_at: purchase.purchased_at
+      });
+      summary.sales++;
+    }
+
+    for (const review of result.new_reviews) {
+      const product = byRemoteId(review.product_id);
+      if (!product) {
+        summary.unmatched++;
+        continue;
+      }
+      product.reviews = product.reviews ?? [];
+      if (product.reviews.some(r => r.id === review.id)) continue;
+
+      product.reviews.push(review);
+      summary.reviews++;
+    }
+
+    for (const update of result.product_updates) {
+      const product = byRemoteId(update.product_id);
+      if (!product) {
+        summary.unmatched++;
+        continue;
+      }
+      if (update.status) product.marketplace_status = update.status;
+      if (update.moderation_notes !== undefined) product.moderation_notes = update.moderation_notes;
+      summary.updates++;
+    }
+
+    this.store.sync_history.push({
+      id: result.sync_id,
+      direction: 'pull',
+      timestamp: result.timestamp,
+      products_synced: summary.relinked + summary.updates
+    });
+    this.store.pull_cursor = result.timestamp;
+    this.store.last_sync = result.timestamp;
+
+    return summary;
+  }
+
+  // Products bought from the marketplace
+  getLibrary(): LibraryEntry[] {
+    return [...(this.store.library ?? [])];
+  }
+
+  getLibraryEntry(purchaseId: string): LibraryEntry | null {
+    return this.store.library?.find(e => e.purchase_id === purchaseId) ?? null;
+  }
+
+  // Refresh the library from getMyPurchases, keeping local download records.
+  // Purchases missing from the list are kept as they are.
+  syncLibrary(purchases: ProductPurchase[]): { added: number; updated: number } {
+    const library = this.store.library ?? [];
+    const summary = { added: 0, updated: 0 };
+    const now = new Date().toISOString();
+
+    for (const purchase of purchases) {
+      const existing = library.find(e => e.purchase_id === purchase.id);
+      const entry: LibraryEntry = {
+        purchase_id: purchase.id,
+        product_id: purchase.product_id,
+        product_name: purchase.product_name ?? existing?.product_name ?? null,
+        price_paid: purchase.price_paid,
+        purchased_at: purchase.purchased_at,
+        delivery_status: purchase.delivery_status,
+        download_token: purchase.download_token,
+        download_expires_at: purchase.download_expires_at,
+        download_count: purchase.download_count,
+        max_downloads: purchase.max_downloads,
+        synced_at: now,
+        download: existing?.download
+      };
+
+      if (existing) {
+        Object.assign(existing, entry);
+        summary.updated++;
+      } else {
+        library.push(entry);
+        summary.added++;
+      }
+    }
+
+    this.store.library = library;
+    return summary;
   }
 
-  private generateChecksum(data: unknown): string {
-    // Simple checksum for manifest
-    const str = JSON.stringify(data);
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  // Count a payload fetch against the entry's download allowance
+  recordPayloadFetch(purchaseId: string, downloadsRemaining?: number): LibraryEntry | null {
+    const entry = this.getLibraryEntry(purchaseId);
+    if (!entry) return null;
+
+    entry.download_count = typeof downloadsRemaining === 'number'
+      ? Math.max(entry.max_downloads - downloadsRemaining, 0)
+      : entry.download_count + 1;
+    return entry;
+  }
+
+  // Remember the verified copy of a purchase saved on this machine
+  recordDownload(purchaseId: string, download: LibraryDownload): LibraryEntry | null {
+    const entry = this.getLibraryEntry(purchaseId);
+    if (!entry) return null;
+
+    entry.download = download;
+    return entry;
+  }
+
+  // Download tokens that are about to expire or run out
+  getLibraryWarnings(now: Date = new Date()): LibraryWarning[] {
+    const warnings: LibraryWarning[] = [];
+
+    for (const entry of this.store.library ?? []) {
+      if (entry.delivery_status === 'refunded' || !entry.download_token) continue;
+      const warn = (kind: LibraryWarning['kind'], message: string) => warnings.push({
+        purchase_id: entry.purchase_id,
+        product_id: entry.product_id,
+        product_name: entry.product_name,
+        kind,
+        message
+      });
+
+      const expiresAt = entry.download_expires_at ? new Date(entry.download_expires_at).getTime() : NaN;
+      if (expiresAt <= now.getTime()) {
+        warn('expired', `Download token expired at ${entry.download_expires_at}`);
+      } else if (expiresAt - now.getTime() <= this.expiryWarningMs) {
+        warn('expiring', `Download token expires at ${entry.download_expires_at}`);
+      }
+
+      const remaining = entry.max_downloads - entry.download_count;
+      if (remaining <= 0) {
+        warn('downloads_exhausted', `All ${entry.max_downloads} downloads used`);
+      } else if (remaining <= this.lowDownloadsAt) {
+        warn('downloads_low', `${remaining} of ${entry.max_downloads} downloads left`);
+      }
     }
-    return Math.abs(hash).toString(16);
+
+    return warnings;
+  }
+
+  // Where the next incremental pull should start
+  getPullCursor(): string | undefined {
+    return this.store.pull_cursor;
+  }
+
+  private generateId(): string {
+    return 'local_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
   }
 }
 
+// A failed push attempt; the product keeps its status so the next push retries it
+function recordSyncError(product: LocalProduct, message: string, at: string): void {
+  product.sync_error = {
+    message,
+    attempts: (product.sync_error?.attempts ?? 0) + 1,
+    last_attempt_at: at
+  };
+}
+
 // =============================================================================
 // Sovereign Client (talks to marketplace - costs credits)
 // =============================================================================
 
+function errorResponse<T>(code: string, message: string): ApiResponse<T> {
+  return { success: false, data: null, error: { code, message } };
+}
+
+// The challenge/verify handshake itself must never trigger a token refresh
+const AUTH_HANDSHAKE_PATHS = ['/auth/challenge', '/auth/verify'];
+
+// Never charged; exempt from the budget guard
+const FREE_PATHS = ['/pricing', ...AUTH_HANDSHAKE_PATHS];
+
 export class SovereignClient {
   private baseUrl: string;
   private authToken: string | null;
+  private retryPolicy: ResolvedRetryPolicy;
+  private timeoutMs: number;
+  private fetchImpl: FetchLike;
+  private middleware: Middleware[];
+  private throwOnError: boolean;
   public localStore: LocalStoreManager;
+  public idempotencyKeys: IdempotencyKeyStore;
+  public budget: BudgetGuard | null;
+  public ledger: CreditLedger | null;
+  private pricing: PricingTable | null = null;
+  private pricingLoad: Promise<PricingTable | null> | null = null;
+  private budgetSeeded = false;
+  private refreshAuth: (() => Promise<string | null>) | null;
+  private refreshLeewayMs: number;
+  private refreshing: Promise<boolean> | null = null;
+  private mergeOptions: MergeOptions;
+  private manifestSigner: WalletSigner | (() => WalletSigner | null) | null;
 
   constructor(config: SovereignConfig = {}) {
     this.baseUrl = config.baseUrl || 'http://localhost:3100/api/v1';
     this.authToken = config.authToken || null;
-    this.localStore = new LocalStoreManager(config.localStorePath);
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.timeoutMs = config.timeoutMs ?? 30_000;
+    this.fetchImpl = config.fetch || ((url, init) => fetch(url, init));
+    this.middleware = [...(config.middleware || [])];
+    this.throwOnError = config.throwOnError || false;
+    this.refreshAuth = config.refreshAuth || null;
+    this.refreshLeewayMs = config.refreshLeewayMs ?? 5 * 60_000;
+    this.budget = config.budget ? new BudgetGuard(config.budget) : null;
+    this.localStore = new LocalStoreManager(config.localStorePath, config.store);
+    this.mergeOptions = config.merge ?? {};
+    this.manifestSigner = config.manifestSigner ?? null;
+    this.idempotencyKeys = new IdempotencyKeyStore(this.localStore.getStorePath());
+    this.ledger = config.ledger === false
+      ? null
+      : new CreditLedger(
+        (typeof config.ledger === 'object' && config.ledger.path)
+          || CreditLedger.pathFor(this.localStore.getStorePath())
+      );
   }
 
   // ---------------------------------------------------------------------------
   // HTTP Methods
   // ---------------------------------------------------------------------------
 
+  /**
+   * Register a middleware at the end of the chain
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
   private async request<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    method: HttpMethod,
+    path: string,
+    body?: unknown,
+    options: RequestOptions & { idempotencyKey?: string; expectedCost?: number } = {}
+  ): Promise<ApiResponse<T>> {
+    // The pricing table and the auth handshake are free and must work before pricing is known
+    let release = () => {};
+    if (this.budget && !FREE_PATHS.includes(path)) {
+      await this.prepareBudget();
+      const check = this.budget.check(method, path, options.expectedCost);
+      if (!check.allowed) {
+        return this.fail('BUDGET_EXCEEDED', check.reason || 'Credit budget exceeded');
+      }
+      release = this.budget.reserve(check.predictedCost);
+    }
+
+    try {
+      return await this.sendWithAuth<T>(method, path, body, options);
+    } finally {
+      release();
+    }
+  }
+
+  private async sendWithAuth<T>(
+    method: HttpMethod,
     path: string,
-    body?: unknown
+    body: unknown,
+    options: RequestOptions & { idempotencyKey?: string; expectedCost?: number }
   ): Promise<ApiResponse<T>> {
+    const canRefresh = this.refreshAuth !== null && !AUTH_HANDSHAKE_PATHS.includes(path);
+    if (canRefresh && this.tokenExpiresSoon()) {
+      await this.refreshToken();
+    }
+
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
@@ -518,62 +1487,383 @@ export class SovereignClient {
       headers['Authorization'] = `Bearer ${this.authToken}`;
     }
 
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
+    const base: RequestContext = { method, path, url: `${this.baseUrl}${path}`, headers, body, attempt: 0 };
+    let { result, context } = await this.send<T>(base, options);
+
+    // A rejected token means the call never ran, so it is safe to replay once
+    if (result.status === 401 && canRefresh && this.authToken && await this.refreshToken()) {
+      const replay = { ...base, headers: { ...headers, Authorization: `Bearer ${this.authToken}` } };
+      ({ result, context } = await this.send<T>(replay, options));
+    }
+
+    if (result.headers?.creditsCharged) {
+      result = await this.recordCharge(method, path, result, options.idempotencyKey);
+    }
+
+    if (result.success) return result;
+
+    const mapped = await runErrorMiddleware(this.middleware, context, result);
+    if (!mapped.success && this.throwOnError) {
+      throw toSovereignError(mapped);
+    }
+    return mapped;
+  }
+
+  private tokenExpiresSoon(): boolean {
+    const expiresAt = this.getTokenExpiry();
+    return expiresAt !== null && expiresAt.getTime() - Date.now() <= this.refreshLeewayMs;
+  }
+
+  /**
+   * Ask refreshAuth for a new token. Concurrent callers share one refresh.
+   */
+  private async refreshToken(): Promise<boolean> {
+    if (!this.refreshAuth) return false;
+
+    if (!this.refreshing) {
+      const refreshAuth = this.refreshAuth;
+      this.refreshing = Promise.resolve()
+        .then(refreshAuth)
+        .then(token => {
+          if (token) this.authToken = token;
+          return !!token;
+        })
+        .catch(() => false)
+        .finally(() => { this.refreshing = null; });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Feed a charged call into the budget guard and the local ledger. A ledger
+   * that can't be written doesn't undo the charge; the result carries a
+   * warning instead.
+   */
+  private async recordCharge<T>(
+    method: HttpMethod,
+    path: string,
+    result: ApiResponse<T>,
+    operationId?: string
+  ): Promise<ApiResponse<T>> {
+    const credits = result.headers?.creditsCharged || 0;
+    this.budget?.recordSpend(credits);
+
+    if (this.ledger) {
+      try {
+        await this.ledger.record({
+          method,
+          endpoint: path,
+          credits,
+          balance_after: result.headers?.creditsRemaining ?? null,
+          operation_id: operationId
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { ...result, warnings: [...(result.warnings ?? []), `Credit ledger not written: ${message}`] };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Load the /pricing table (once; retried after failures). Concurrent
+   * callers share one request.
+   */
+  private async loadPricing(): Promise<PricingTable | null> {
+    if (this.pricing) return this.pricing;
+
+    if (!this.pricingLoad) {
+      this.pricingLoad = this.getPricing()
+        .then(pricing => {
+          if (pricing.success && pricing.data) {
+            this.pricing = new PricingTable(pricing.data.pricing);
+          }
+          return this.pricing;
+        })
+        .catch(() => null)  // throwOnError mode - callers fall back to unknown cost
+        .finally(() => { this.pricingLoad = null; });
+    }
+    return this.pricingLoad;
+  }
+
+  /**
+   * Hand the pricing table to the budget guard and seed today's spend from
+   * the ledger so daily limits survive restarts
+   */
+  private async prepareBudget(): Promise<void> {
+    if (!this.budget) return;
+
+    if (!this.budgetSeeded && this.ledger) {
+      this.budgetSeeded = true;
+      const today = new Date().toISOString().slice(0, 10);
+      const spent = (await this.ledger.spendByDay({ since: today }))[today] || 0;
+      this.budget.seedDailySpend(today, spent);
+    }
+
+    if (!this.budget.hasPricing()) {
+      const pricing = await this.loadPricing();
+      if (pricing) this.budget.setPricing(pricing);
+    }
+  }
+
+  /**
+   * Item price for a purchase (products, plots, rent), which is charged on
+   * top of the endpoint fee
+   */
+  private async lookupCost(
+    lookup: () => Promise<ApiResponse<{ price?: string; purchase_price?: string; rent_amount?: string }>>,
+    field: 'price' | 'purchase_price' | 'rent_amount',
+    multiplier = 1
+  ): Promise<number> {
+    try {
+      const result = await lookup();
+      return (Number(result.data?.[field]) || 0) * multiplier;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Build a dry-run cost estimate. Only free endpoints (/pricing, the
+   * balance and item lookups) are called.
+   */
+  private async estimate(
+    operation: string,
+    method: HttpMethod,
+    path: string,
+    itemCost: number,
+    requestOptions: RequestOptions,
+    manifest?: SyncManifest
+  ): Promise<ApiResponse<CostEstimate>> {
+    const pricing = await this.loadPricing();
+    const fee = pricing?.predict(method, path) ?? 0;
+    const predictedCost = fee + itemCost;
+
+    let currentBalance: number | null = null;
     try {
-      const response = await fetch(`${this.baseUrl}${path}`, {
+      const balance = await this.getBalance(requestOptions);
+      if (balance.success && balance.data) {
+        currentBalance = Number(balance.data.balance);
+      }
+    } catch {
+      // throwOnError mode - balance is optional for an estimate
+    }
+
+    let budget: BudgetCheck | undefined;
+    if (this.budget) {
+      await this.prepareBudget();
+      budget = this.budget.check(method, path, itemCost);
+    }
+
+    return {
+      success: true,
+      data: {
+        dry_run: true,
+        operation,
         method,
-        headers,
-        body: body ? JSON.stringify(body) : undefined,
+        path,
+        manifest,
+        pricing_available: pricing !== null,
+        fee,
+        item_cost: itemCost,
+        predicted_cost: predictedCost,
+        current_balance: currentBalance,
+        projected_balance: currentBalance !== null ? currentBalance - predictedCost : null,
+        budget
+      }
+    };
+  }
+
+  /**
+   * Fail a call without hitting the network (honours throwOnError)
+   */
+  private fail<T>(code: string, message: string): ApiResponse<T> {
+    const result = errorResponse<T>(code, message);
+    if (this.throwOnError) {
+      throw toSovereignError(result);
+    }
+    return result;
+  }
+
+  private async send<T>(
+    base: RequestContext,
+    options: RequestOptions & { idempotencyKey?: string }
+  ): Promise<{ result: ApiResponse<T>; context: RequestContext }> {
+    const { method } = base;
+    const replaySafe = !!options.idempotencyKey;
+    const maxRetries = maxRetriesFor(this.retryPolicy, method);
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    const { signal } = options;
+
+    let context = base;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        return { result: errorResponse('ABORTED', 'Request was cancelled'), context };
+      }
+
+      context = await runRequestMiddleware(this.middleware, {
+        ...base,
+        headers: { ...base.headers },
+        attempt
       });
 
-      const json = await response.json() as ApiResponse<T>;
+      // Each attempt gets its own controller so a timeout only cancels that attempt
+      const controller = new AbortController();
+      let timedOut = false;
+      const timer = timeoutMs > 0
+        ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+        : null;
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let failure: RetryFailure;
+
+      try {
+        let response = await this.fetchImpl(context.url, {
+          method: context.method,
+          headers: context.headers,
+          body: serializeBody(context.body),
+          signal: controller.signal,
+        });
+        response = await runResponseMiddleware(this.middleware, context, response);
+
+        if (this.retryPolicy.retryOnStatus.includes(response.status)) {
+          failure = {
+            kind: 'status',
+            status: response.status,
+            retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+          };
+          if (attempt < maxRetries && shouldRetry(this.retryPolicy, method, failure, replaySafe)) {
+            await response.body?.cancel();
+            await sleep(computeRetryDelay(this.retryPolicy, attempt, failure.retryAfterMs), signal);
+            continue;
+          }
+        }
 
-      // Extract billing info from headers
-      const creditsCharged = response.headers.get('X-Credits-Charged');
-      const creditsRemaining = response.headers.get('X-Credits-Remaining');
+        return { result: await this.parseResponse<T>(response), context };
+      } catch (error) {
+        if (signal?.aborted) {
+          return { result: errorResponse('ABORTED', 'Request was cancelled'), context };
+        }
 
-      return {
-        ...json,
-        headers: {
-          creditsCharged: creditsCharged ? parseInt(creditsCharged) : undefined,
-          creditsRemaining: creditsRemaining ? parseInt(creditsRemaining) : undefined
+        failure = timedOut ? { kind: 'timeout' } : { kind: 'network', error };
+        if (attempt < maxRetries && shouldRetry(this.retryPolicy, method, failure, replaySafe)) {
+          await sleep(computeRetryDelay(this.retryPolicy, attempt), signal);
+          continue;
         }
-      };
+
+        const result = timedOut
+          ? errorResponse<T>('TIMEOUT', `Request timed out after ${timeoutMs}ms`)
+          : errorResponse<T>('NETWORK_ERROR', error instanceof Error ? error.message : 'Unknown error');
+        return { result, context };
+      } finally {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  private async parseResponse<T>(response: Response): Promise<ApiResponse<T>> {
+    let json: ApiResponse<T>;
+    try {
+      json = await response.json() as ApiResponse<T>;
     } catch (error) {
-      return {
+      // Timed out or cancelled while reading the body
+      if (error instanceof Error && error.name === 'AbortError') throw error;
+
+      // Non-JSON body (e.g. a proxy error page)
+      json = {
         success: false,
         data: null,
         error: {
-          code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error',
+          code: 'HTTP_ERROR',
+          message: `HTTP ${response.status} ${response.statusText}`.trim(),
         },
       };
     }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+
+    // Extract billing info from headers
+    const creditsCharged = response.headers.get('X-Credits-Charged');
+    const creditsRemaining = response.headers.get('X-Credits-Remaining');
+
+    return {
+      ...json,
+      status: response.status,
+      retryAfterMs: retryAfterMs ?? undefined,
+      headers: {
+        creditsCharged: creditsCharged ? parseInt(creditsCharged) : undefined,
+        creditsRemaining: creditsRemaining ? parseInt(creditsRemaining) : undefined
+      }
+    };
+  }
+
+  /**
+   * Run a credit-spending call under an idempotency key.
+   * The key stays pending on disk until the server gives a definitive answer,
+   * so a retry of the same operation (even after a crash) reuses it.
+   */
+  private async withIdempotencyKey<T>(
+    operation: string,
+    call: (idempotencyKey: string) => Promise<ApiResponse<T>>
+  ): Promise<ApiResponse<T>> {
+    const idempotencyKey = await this.idempotencyKeys.acquire(operation);
+
+    let response: ApiResponse<T>;
+    try {
+      response = await call(idempotencyKey);
+    } catch (error) {
+      // throwOnError mode: same bookkeeping as for a returned failure
+      if (error instanceof SovereignError && !AMBIGUOUS_ERROR_CODES.includes(error.apiCode)) {
+        await this.idempotencyKeys.release(operation);
+      }
+      throw error;
+    }
+
+    if (!AMBIGUOUS_ERROR_CODES.includes(response.error?.code ?? '')) {
+      await this.idempotencyKeys.release(operation);
+    }
+
+    return { ...response, idempotencyKey };
   }
 
   // ---------------------------------------------------------------------------
   // Authentication (FREE)
   // ---------------------------------------------------------------------------
 
+  /**
+   * Answer the wallet challenge. `signer` is a signing function or a
+   * WalletSigner such as KeySigner; without one, authentication fails.
+   */
   async authenticate(
     walletAddress: string,
-    signMessage?: (message: string) => Promise<string>
+    signer?: MessageSigner | WalletSigner,
+    requestOptions: RequestOptions = {}
   ): Promise<ApiResponse<{ token: string; agent: Agent; is_new_agent: boolean }>> {
+    if (!signer) {
+      return this.fail('SIGNER_REQUIRED', 'A wallet signer is required to answer the auth challenge');
+    }
+
     const challengeResp = await this.request<{ challenge: string; message: string }>(
       'POST',
       '/auth/challenge',
-      { wallet_address: walletAddress }
+      { wallet_address: walletAddress },
+      requestOptions
     );
 
     if (!challengeResp.success || !challengeResp.data) {
       return { success: false, data: null, error: challengeResp.error };
     }
 
-    let signature: string;
-    if (signMessage) {
-      signature = await signMessage(challengeResp.data.message);
-    } else {
-      signature = '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
-    }
+    const signature = typeof signer === 'function'
+      ? await signer(challengeResp.data.message)
+      : await signer.signMessage(challengeResp.data.message);
 
     const verifyResp = await this.request<{ token: string; agent: Agent; is_new_agent: boolean }>(
       'POST',
@@ -582,7 +1872,8 @@ export class SovereignClient {
         wallet_address: walletAddress,
         challenge: challengeResp.data.challenge,
         signature,
-      }
+      },
+      requestOptions
     );
 
     if (verifyResp.success && verifyResp.data) {
@@ -592,11 +1883,12 @@ export class SovereignClient {
     return verifyResp;
   }
 
-  async getAgentInfo(): Promise<ApiResponse<Agent>> {
-    return this.request<Agent>('GET', '/auth/me');
+  async getAgentInfo(requestOptions: RequestOptions = {}): Promise<ApiResponse<Agent>> {
+    return this.request<Agent>('GET', '/auth/me', undefined, requestOptions);
   }
 
-  setToken(token: string): void {
+  // null drops the token (logged out or vault locked)
+  setToken(token: string | null): void {
     this.authToken = token;
   }
 
@@ -604,52 +1896,65 @@ export class SovereignClient {
     return this.authToken;
   }
 
+  /**
+   * Expiry of the current token, from its `exp` claim
+   */
+  getTokenExpiry(): Date | null {
+    return this.authToken ? getJwtExpiry(this.authToken) : null;
+  }
+
   // ---------------------------------------------------------------------------
   // Credits
   // ---------------------------------------------------------------------------
 
-  async getBalance(): Promise<ApiResponse<{ balance: string; last_updated: string }>> {
-    return this.request('GET', '/credits/balance');
+  async getBalance(requestOptions: RequestOptions = {}): Promise<ApiResponse<{ balance: string; last_updated: string }>> {
+    return this.request('GET', '/credits/balance', undefined, requestOptions);
   }
 
-  async getPackages(): Promise<ApiResponse<CreditPackage[]>> {
-    return this.request('GET', '/credits/packages');
+  async getPackages(requestOptions: RequestOptions = {}): Promise<ApiResponse<CreditPackage[]>> {
+    return this.request('GET', '/credits/packages', undefined, requestOptions);
   }
 
-  async purchaseCredits(options: { packageId?: string; customAmount?: number }): Promise<ApiResponse<Invoice>> {
-    return this.request('POST', '/credits/purchase', {
-      package_id: options.packageId,
-      custom_amount: options.customAmount,
-    });
+  async purchaseCredits(
+    options: { packageId?: string; customAmount?: number },
+    requestOptions: RequestOptions = {}
+  ): Promise<ApiResponse<Invoice>> {
+    const operation = `purchaseCredits:${options.packageId ?? ''}:${options.customAmount ?? ''}`;
+    return this.withIdempotencyKey(operation, idempotencyKey =>
+      this.request('POST', '/credits/purchase', {
+        package_id: options.packageId,
+        custom_amount: options.customAmount,
+      }, { ...requestOptions, idempotencyKey })
+    );
   }
 
   async getTransactionHistory(options: {
     page?: number;
     limit?: number;
     type?: string;
-  } = {}): Promise<ApiResponse<{ transactions: Transaction[]; pagination: Pagination }>> {
+  } = {}, requestOptions: RequestOptions = {}): Promise<ApiResponse<{ transactions: Transaction[]; pagination: Pagination }>> {
     const params = new URLSearchParams();
     if (options.page) params.set('page', options.page.toString());
     if (options.limit) params.set('limit', options.limit.toString());
     if (options.type) params.set('type', options.type);
 
-    return this.request('GET', `/credits/history?${params}`);
+    return this.request('GET', `/credits/history?${params}`, undefined, requestOptions);
   }
 
   // ---------------------------------------------------------------------------
   // Land
   // ---------------------------------------------------------------------------
 
-  async getPlotTypes(): Promise<ApiResponse<Record<string, PlotType>>> {
-    return this.request('GET', '/plots/types');
+  async getPlotTypes(requestOptions: RequestOptions = {}): Promise<ApiResponse<Record<string, PlotType>>> {
+    return this.request('GET', '/plots/types', undefined, requestOptions);
   }
 
-  async getDistricts(): Promise<ApiResponse<District[]>> {
-    return this.request('GET', '/plots/districts');
+  async getDistricts(requestOptions: RequestOptions = {}): Promise<ApiResponse<District[]>> {
+    return this.request('GET', '/plots/districts', undefined, requestOptions);
   }
 
-  async getRentDiscounts(): Promise<ApiResponse<Record<number, { months: number; discount: number; label: string }>>> {
-    return this.request('GET', '/plots/rent-discounts');
+  async getRentDiscounts(requestOptions: RequestOptions = {}): Promise<ApiResponse<Record<number, { months: number; discount: number; label: string }>>> {
+    return this.request('GET', '/plots/rent-discounts', undefined, requestOptions);
   }
 
   async getAvailablePlots(options: {
@@ -657,41 +1962,70 @@ export class SovereignClient {
     limit?: number;
     district?: string;
     plotType?: string;
-  } = {}): Promise<ApiResponse<{ plots: Plot[]; pagination: Pagination }>> {
+  } = {}, requestOptions: RequestOptions = {}): Promise<ApiResponse<{ plots: Plot[]; pagination: Pagination }>> {
     const params = new URLSearchParams();
     if (options.page) params.set('page', options.page.toString());
     if (options.limit) params.set('limit', options.limit.toString());
     if (options.district) params.set('district', options.district);
     if (options.plotType) params.set('plotType', options.plotType);
 
-    return this.request('GET', `/plots/available?${params}`);
+    return this.request('GET', `/plots/available?${params}`, undefined, requestOptions);
   }
 
-  async getMyPlots(): Promise<ApiResponse<Plot[]>> {
-    return this.request('GET', '/plots/mine');
+  async getMyPlots(requestOptions: RequestOptions = {}): Promise<ApiResponse<Plot[]>> {
+    return this.request('GET', '/plots/mine', undefined, requestOptions);
   }
 
-  async getPlot(plotId: string): Promise<ApiResponse<Plot>> {
-    return this.request('GET', `/plots/${plotId}`);
+  async getPlot(plotId: string, requestOptions: RequestOptions = {}): Promise<ApiResponse<Plot>> {
+    return this.request('GET', `/plots/${plotId}`, undefined, requestOptions);
   }
 
-  async purchasePlot(plotId: string): Promise<ApiResponse<{ plot: Plot }>> {
-    return this.request('POST', '/plots/purchase', { plotId });
+  purchasePlot(plotId: string, requestOptions: DryRunOptions): Promise<ApiResponse<CostEstimate>>;
+  purchasePlot(plotId: string, requestOptions?: RequestOptions): Promise<ApiResponse<{ plot: Plot }>>;
+  async purchasePlot(
+    plotId: string,
+    requestOptions: RequestOptions & { dryRun?: boolean } = {}
+  ): Promise<ApiResponse<{ plot: Plot } | CostEstimate>> {
+    const lookup = () => this.lookupCost(() => this.getPlot(plotId, requestOptions), 'purchase_price');
+    if (requestOptions.dryRun) {
+      return this.estimate('purchasePlot', 'POST', '/plots/purchase', await lookup(), requestOptions);
+    }
+
+    const expectedCost = this.budget ? await lookup() : 0;
+    return this.withIdempotencyKey(`purchasePlot:${plotId}`, idempotencyKey =>
+      this.request('POST', '/plots/purchase', { plotId }, { ...requestOptions, idempotencyKey, expectedCost })
+    );
   }
 
+  payRent(plotId: string, months: number, requestOptions: DryRunOptions): Promise<ApiResponse<CostEstimate>>;
+  payRent(
+    plotId: string,
+    months: number,
+    requestOptions?: RequestOptions
+  ): Promise<ApiResponse<{ rent_paid_until: string; total_cost: string; discount: number }>>;
   async payRent(
     plotId: string,
-    months: number
-  ): Promise<ApiResponse<{ rent_paid_until: string; total_cost: string; discount: number }>> {
-    return this.request('POST', `/plots/${plotId}/rent`, { months });
+    months: number,
+    requestOptions: RequestOptions & { dryRun?: boolean } = {}
+  ): Promise<ApiResponse<{ rent_paid_until: string; total_cost: string; discount: number } | CostEstimate>> {
+    // Undiscounted rent - an upper bound on what the call can cost
+    const lookup = () => this.lookupCost(() => this.getPlot(plotId, requestOptions), 'rent_amount', months);
+    if (requestOptions.dryRun) {
+      return this.estimate('payRent', 'POST', `/plots/${plotId}/rent`, await lookup(), requestOptions);
+    }
+
+    const expectedCost = this.budget ? await lookup() : 0;
+    return this.withIdempotencyKey(`payRent:${plotId}:${months}`, idempotencyKey =>
+      this.request('POST', `/plots/${plotId}/rent`, { months }, { ...requestOptions, idempotencyKey, expectedCost })
+    );
   }
 
   // ---------------------------------------------------------------------------
   // Products (Remote Marketplace)
   // ---------------------------------------------------------------------------
 
-  async getCategories(): Promise<ApiResponse<ProductCategory[]>> {
-    return this.request('GET', '/products/categories');
+  async getCategories(requestOptions: RequestOptions = {}): Promise<ApiResponse<ProductCategory[]>> {
+    return this.request('GET', '/products/categories', undefined, requestOptions);
   }
 
   async browseProducts(options: {
@@ -700,7 +2034,7 @@ export class SovereignClient {
     page?: number;
     limit?: number;
     sort?: 'newest' | 'popular' | 'price_asc' | 'price_desc' | 'rating';
-  } = {}): Promise<ApiResponse<{ products: Product[]; total: number; page: number; limit: number }>> {
+  } = {}, requestOptions: RequestOptions = {}): Promise<ApiResponse<{ products: Product[]; total: number; page: number; limit: number }>> {
     const params = new URLSearchParams();
     if (options.category) params.set('category', options.category);
     if (options.search) params.set('search', options.search);
@@ -708,52 +2042,316 @@ export class SovereignClient {
     if (options.limit) params.set('limit', options.limit.toString());
     if (options.sort) params.set('sort', options.sort);
 
-    return this.request('GET', `/products?${params}`);
+    return this.request('GET', `/products?${params}`, undefined, requestOptions);
   }
 
-  async getProductDetails(productId: string): Promise<ApiResponse<Product & { reviews: object[] }>> {
-    return this.request('GET', `/products/${productId}`);
+  async getProductDetails(productId: string, requestOptions: RequestOptions = {}): Promise<ApiResponse<Product & { reviews: object[] }>> {
+    return this.request('GET', `/products/${productId}`, undefined, requestOptions);
   }
 
-  async purchaseProduct(productId: string): Promise<ApiResponse<{
+  purchaseProduct(productId: string, requestOptions: DryRunOptions): Promise<ApiResponse<CostEstimate>>;
+  purchaseProduct(productId: string, requestOptions?: RequestOptions): Promise<ApiResponse<{
     purchaseId: string;
     downloadToken: string;
     downloadUrl: string;
     expiresAt: string;
     maxDownloads: number;
+  }>>;
+  async purchaseProduct(productId: string, requestOptions: RequestOptions & { dryRun?: boolean } = {}): Promise<ApiResponse<{
+    purchaseId: string;
+    downloadToken: string;
+    downloadUrl: string;
+    expiresAt: string;
+    maxDownloads: number;
+  } | CostEstimate>> {
+    const lookup = () => this.lookupCost(() => this.getProductDetails(productId, requestOptions), 'price');
+    if (requestOptions.dryRun) {
+      return this.estimate('purchaseProduct', 'POST', `/products/${productId}/purchase`, await lookup(), requestOptions);
+    }
+
+    const expectedCost = this.budget ? await lookup() : 0;
+    return this.withIdempotencyKey(`purchaseProduct:${productId}`, idempotencyKey =>
+      this.request('POST', `/products/${productId}/purchase`, undefined, { ...requestOptions, idempotencyKey, expectedCost })
+    );
+  }
+
+  async downloadProduct(token: string, requestOptions: RequestOptions = {}): Promise<ApiResponse<{
+    productName: string;
+    deliveryType: string;
+    payload: object;
+    downloadsRemaining: number;
   }>> {
-    return this.request('POST', `/products/${productId}/purchase`);
+    return this.request('GET', `/products/download/${token}`, undefined, requestOptions);
   }
 
-  async downloadProduct(token: string): Promise<ApiResponse<{
+  /**
+   * Refresh the purchase library from getMyPurchases and report download
+   * tokens that are about to expire or run out
+   */
+  async syncLibrary(requestOptions: RequestOptions = {}): Promise<ApiResponse<{
+    added: number;
+    updated: number;
+    warnings: LibraryWarning[];
+  }>> {
+    const purchases = await this.getMyPurchases(requestOptions);
+    if (!purchases.success || !purchases.data) {
+      return { ...purchases, data: null };
+    }
+
+    const summary = this.localStore.syncLibrary(purchases.data);
+    await this.localStore.save();
+
+    return { success: true, data: { ...summary, warnings: this.localStore.getLibraryWarnings() } };
+  }
+
+  /**
+   * Fetch the delivery payload of an owned product again, using the download
+   * token tracked in the library
+   */
+  async redownload(purchaseId: string, requestOptions: RequestOptions = {}): Promise<ApiResponse<{
+    entry: LibraryEntry;
     productName: string;
     deliveryType: string;
     payload: object;
     downloadsRemaining: number;
   }>> {
-    return this.request('GET', `/products/download/${token}`);
+    const resolved = await this.resolvePurchase(purchaseId, requestOptions);
+    if (!resolved.success || !resolved.data) {
+      return { ...resolved, data: null };
+    }
+
+    const download = await this.fetchPayload(resolved.data, requestOptions);
+    if (!download.success || !download.data) {
+      return { ...download, data: null };
+    }
+
+    return { success: true, data: { ...download.data, entry: resolved.data } };
+  }
+
+  /**
+   * Download a purchased deliverable into destDir/<purchase_id>, verifying it
+   * against the seller's published content_hash and size before it is kept.
+   * Files that fail the check are deleted and an INTEGRITY_CHECK_FAILED error
+   * returned. A download that stalls for the request timeout fails with TIMEOUT.
+   */
+  async downloadAndSave(
+    purchaseId: string,
+    destDir: string,
+    requestOptions: RequestOptions & { allowUnverified?: boolean } = {}
+  ): Promise<ApiResponse<LibraryEntry>> {
+    const resolved = await this.resolvePurchase(purchaseId, requestOptions);
+    if (!resolved.success || !resolved.data) {
+      return { ...resolved, data: null };
+    }
+    const entry = resolved.data;
+
+    // The IDs come from the server and name the folder the file is saved in
+    const unsafe = [entry.purchase_id, entry.product_id].find(id => !isSafeId(id));
+    if (unsafe !== undefined) {
+      return this.fail('INVALID_PURCHASE', `Refusing to save a download for the unsafe ID ${JSON.stringify(unsafe)}`);
+    }
+
+    const details = await this.getProductDetails(entry.product_id, requestOptions);
+    if (!details.success || !details.data) {
+      return { ...details, data: null };
+    }
+    const expected = {
+      sha256: details.data.content_hash ?? undefined,
+      size: details.data.file_size_bytes ?? undefined
+    };
+    if (!expected.sha256 && !requestOptions.allowUnverified) {
+      return this.fail('UNVERIFIABLE', `The seller published no content_hash for ${entry.product_id}; pass allowUnverified to save it anyway`);
+    }
+
+    const download = await this.fetchPayload(entry, requestOptions);
+    if (!download.success || !download.data) {
+      return { ...download, data: null };
+    }
+
+    const payload = download.data.payload as { url?: string; download_url?: string };
+    const location = payload.url ?? payload.download_url;
+    if (!location) {
+      return this.fail('NOT_DOWNLOADABLE', `${download.data.deliveryType} deliverables have no file to download`);
+    }
+
+    // Only send our bearer token back to the API's own origin
+    const url = new URL(location, this.baseUrl);
+    const headers: Record<string, string> = {};
+    if (this.authToken && url.origin === new URL(this.baseUrl).origin) {
+      headers['Authorization'] = `Bearer ${this.authToken}`;
+    }
+
+    // One folder per purchase, so purchases with the same file name don't overwrite each other
+    const destPath = join(destDir, entry.purchase_id, basename(url.pathname) || entry.product_id);
+
+    // The timeout covers each wait (for the response, then for every chunk),
+    // so a large file can take as long as it needs but a stalled one fails
+    const timeoutMs = requestOptions.timeoutMs ?? this.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const rearm = () => {
+      if (timer) clearTimeout(timer);
+      if (timeoutMs > 0) timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    };
+    const onAbort = () => controller.abort();
+    const { signal } = requestOptions;
+    if (signal?.aborted) {
+      return this.fail('ABORTED', 'Request was cancelled');
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let saved: { sha256: string; size: number };
+    try {
+      rearm();
+      const response = await this.fetchImpl(url.toString(), { method: 'GET', headers, signal: controller.signal });
+      if (!response.ok || !response.body) {
+        await response.body?.cancel();
+        return this.fail('DOWNLOAD_FAILED', `Download failed with HTTP ${response.status}`);
+      }
+      // Not every fetch implementation ends the body on abort, so race each read against it
+      const chunks = (response.body as unknown as AsyncIterable<Uint8Array>)[Symbol.asyncIterator]();
+      const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new Error('Download aborted')), { once: true });
+      });
+      aborted.catch(() => {});
+      saved = await saveVerified((async function* () {
+        for (;;) {
+          const next = await Promise.race([chunks.next(), aborted]);
+          if (next.done) return;
+          rearm();
+          yield next.value;
+        }
+      })(), destPath, expected);
+    } catch (error) {
+      if (error instanceof IntegrityError) {
+        return this.fail('INTEGRITY_CHECK_FAILED', `Rejected download of ${entry.product_id}: ${error.message}`);
+      }
+      if (signal?.aborted) {
+        return this.fail('ABORTED', 'Request was cancelled');
+      }
+      if (timedOut) {
+        return this.fail('TIMEOUT', `Download stalled for ${timeoutMs}ms`);
+      }
+      return this.fail('DOWNLOAD_FAILED', error instanceof Error ? error.message : 'Download failed');
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    entry.product_name = entry.product_name ?? download.data.productName ?? null;
+    this.localStore.recordDownload(entry.purchase_id, {
+      path: destPath,
+      content_hash: saved.sha256,
+      file_size_bytes: saved.size,
+      verified: !!expected.sha256,
+      downloaded_at: new Date().toISOString()
+    });
+    await this.localStore.save();
+
+    return { success: true, data: entry };
+  }
+
+  // Library entry with a usable download token, refreshing the library when
+  // the purchase is unknown or its token has expired
+  private async resolvePurchase(purchaseId: string, requestOptions: RequestOptions): Promise<ApiResponse<LibraryEntry>> {
+    let entry = this.localStore.getLibraryEntry(purchaseId);
+    const expired = entry?.download_expires_at && new Date(entry.download_expires_at).getTime() <= Date.now();
+
+    if (!entry?.download_token || expired) {
+      const synced = await this.syncLibrary(requestOptions);
+      if (!synced.success) {
+        return { ...synced, data: null };
+      }
+      entry = this.localStore.getLibraryEntry(purchaseId);
+    }
+
+    if (!entry) {
+      return this.fail('NOT_FOUND', `Purchase not found: ${purchaseId}`);
+    }
+    if (!entry.download_token) {
+      return this.fail('DOWNLOAD_UNAVAILABLE', `Purchase ${purchaseId} has no download token`);
+    }
+    return { success: true, data: entry };
+  }
+
+  // Spend one download and keep the library's count in step with the server
+  private async fetchPayload(entry: LibraryEntry, requestOptions: RequestOptions) {
+    const download = await this.downloadProduct(entry.download_token!, requestOptions);
+    if (download.success && download.data) {
+      this.localStore.recordPayloadFetch(entry.purchase_id, download.data.downloadsRemaining);
+      await this.localStore.save();
+    }
+    return download;
   }
 
-  async getMyPurchases(): Promise<ApiResponse<ProductPurchase[]>> {
-    return this.request('GET', '/products/my/purchases');
+  async getMyPurchases(requestOptions: RequestOptions = {}): Promise<ApiResponse<ProductPurchase[]>> {
+    return this.request('GET', '/products/my/purchases', undefined, requestOptions);
   }
 
-  async getMySales(): Promise<ApiResponse<ProductPurchase[]>> {
-    return this.request('GET', '/products/my/sales');
+  async getMySales(requestOptions: RequestOptions = {}): Promise<ApiResponse<ProductPurchase[]>> {
+    return this.request('GET', '/products/my/sales', undefined, requestOptions);
   }
 
-  async getMyProducts(): Promise<ApiResponse<{ products: Product[]; total: number }>> {
-    return this.request('GET', '/products/my/products');
+  async getMyProducts(requestOptions: RequestOptions = {}): Promise<ApiResponse<{ products: Product[]; total: number }>> {
+    return this.request('GET', '/products/my/products', undefined, requestOptions);
   }
 
-  async getSellerStats(): Promise<ApiResponse<{
+  async getSellerStats(requestOptions: RequestOptions = {}): Promise<ApiResponse<{
     totalProducts: number;
     activeProducts: number;
     totalSales: number;
     totalRevenue: string;
     averageRating: number | null;
   }>> {
-    return this.request('GET', '/products/my/stats');
+    return this.request('GET', '/products/my/stats', undefined, requestOptions);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pagination (for await ... of)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Iterate every marketplace product matching the filter, page by page
+   */
+  iterateProducts(
+    filter: {
+      category?: string;
+      search?: string;
+      sort?: 'newest' | 'popular' | 'price_asc' | 'price_desc' | 'rating';
+    } = {},
+    options: PaginateOptions & RequestOptions = {}
+  ): AsyncGenerator<Product> {
+    return paginate(async (page, limit) => toPage(
+      await this.browseProducts({ ...filter, page, limit }, options),
+      data => ({ items: data.products, pagination: data })
+    ), options);
+  }
+
+  /**
+   * Iterate the full credit transaction history
+   */
+  iterateTransactions(
+    filter: { type?: string } = {},
+    options: PaginateOptions & RequestOptions = {}
+  ): AsyncGenerator<Transaction> {
+    return paginate(async (page, limit) => toPage(
+      await this.getTransactionHistory({ ...filter, page, limit }, options),
+      data => ({ items: data.transactions, pagination: data.pagination })
+    ), options);
+  }
+
+  /**
+   * Iterate every available plot matching the filter
+   */
+  iteratePlots(
+    filter: { district?: string; plotType?: string } = {},
+    options: PaginateOptions & RequestOptions = {}
+  ): AsyncGenerator<Plot> {
+    return paginate(async (page, limit) => toPage(
+      await this.getAvailablePlots({ ...filter, page, limit }, options),
+      data => ({ items: data.plots, pagination: data.pagination })
+    ), options);
   }
 
   // ---------------------------------------------------------------------------
@@ -764,18 +2362,57 @@ export class SovereignClient {
    * Push local store to marketplace (COSTS CREDITS)
    * This is where you pay to publish/update your products
    */
-  async push(agentId?: string): Promise<ApiResponse<SyncResult>> {
-    const id = agentId || (await this.getAgentInfo()).data?.id;
+  push(agentId: string | undefined, requestOptions: DryRunOptions): Promise<ApiResponse<CostEstimate>>;
+  push(agentId?: string, requestOptions?: RequestOptions): Promise<ApiResponse<SyncResult>>;
+  async push(
+    agentId?: string,
+    requestOptions: RequestOptions & { dryRun?: boolean } = {}
+  ): Promise<ApiResponse<SyncResult | CostEstimate>> {
+    const id = agentId || (await this.getAgentInfo(requestOptions)).data?.id;
     if (!id) {
-      return { success: false, data: null, error: { code: 'NOT_AUTHENTICATED', message: 'Must be authenticated to push' } };
+      return this.fail('NOT_AUTHENTICATED', 'Must be authenticated to push');
+    }
+
+    if (requestOptions.dryRun) {
+      const manifest = this.localStore.generateSyncManifest(id);
+      return this.estimate('push', 'POST', '/sync/push', 0, requestOptions, manifest);
+    }
+
+    // Don't overwrite marketplace edits made since the last sync
+    if (this.localStore.needsRemoteCheck()) {
+      const remote = await this.getMyProducts(requestOptions);
+      if (!remote.success || !remote.data) {
+        return this.fail('CONFLICT_CHECK_FAILED',
+          `Could not fetch your marketplace products to check for conflicts: ${remote.error?.message}`);
+      }
+      this.localStore.mergeRemote(remote.data.products, this.mergeOptions);
+      await this.localStore.save();
     }
 
-    const manifest = this.localStore.generateSyncManifest(id);
-    const response = await this.request<SyncResult>('POST', '/sync/push', { manifest });
+    // The manifest must describe the deliverables as they are on disk now;
+    // products whose deliverable is broken sit this push out
+    const invalid = await this.localStore.revalidateDeliverables();
+    let manifest = this.localStore.generateSyncManifest(id, invalid.map(p => p.local_id));
+    const signer = typeof this.manifestSigner === 'function' ? this.manifestSigner() : this.manifestSigner;
+    if (signer) {
+      manifest = await signManifest(manifest, signer);
+    }
+
+    // Keyed on the manifest content (not its timestamp): an unchanged store replays the same push
+    const content = sha256Hex(canonicalJson({ products: manifest.products, store_profile: manifest.store_profile }));
+    const response = await this.withIdempotencyKey(`push:${id}:${content}`, idempotencyKey =>
+      this.request<SyncResult>('POST', '/sync/push', { manifest }, { ...requestOptions, idempotencyKey })
+    );
 
     if (response.success && response.data) {
       this.localStore.applySyncResults(response.data);
-      await this.localStore.save();
+      if (invalid.length > 0) {
+        response.warnings = [
+          ...(response.warnings ?? []),
+          ...invalid.map(p => `Not pushed, fix its deliverable first: ${p.local_id} (${p.error})`)
+        ];
+      }
+      return this.saveAfterCharge(response);
     }
 
     return response;
@@ -783,41 +2420,109 @@ export class SovereignClient {
 
   /**
    * Pull marketplace data (COSTS CREDITS)
-   * Get new purchases, reviews, stats
+   * Get new purchases, reviews, stats and merge them into the local store
    */
-  async pull(since?: string): Promise<ApiResponse<PullResult>> {
-    return this.request<PullResult>('POST', '/sync/pull', { since });
+  pull(since: string | null | undefined, requestOptions: DryRunOptions): Promise<ApiResponse<CostEstimate>>;
+  pull(since?: string | null, requestOptions?: RequestOptions): Promise<ApiResponse<PullResult>>;
+  async pull(
+    since?: string | null,
+    requestOptions: RequestOptions & { dryRun?: boolean } = {}
+  ): Promise<ApiResponse<PullResult | CostEstimate>> {
+    if (requestOptions.dryRun) {
+      return this.estimate('pull', 'POST', '/sync/pull', 0, requestOptions);
+    }
+
+    // Default to an incremental pull from the stored cursor (null pulls everything)
+    const from = since === undefined ? this.localStore.getPullCursor() : since ?? undefined;
+    const response = await this.request<PullResult>('POST', '/sync/pull', { since: from }, requestOptions);
+
+    if (response.success && response.data) {
+      this.localStore.applyPullResults(response.data);
+      return this.saveAfterCharge(response);
+    }
+
+    return response;
+  }
+
+  // The server has already charged for this response, so a failed save must
+  // not hide its data. The results stay in memory and go out with the next save.
+  private async saveAfterCharge<T>(response: ApiResponse<T>): Promise<ApiResponse<T>> {
+    try {
+      await this.localStore.save();
+      return response;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...response, warnings: [...(response.warnings ?? []), `Local store not saved: ${message}`] };
+    }
   }
 
   /**
    * Get sync status (COSTS CREDITS)
    */
-  async getSyncStatus(): Promise<ApiResponse<{
+  async getSyncStatus(requestOptions: RequestOptions = {}): Promise<ApiResponse<{
     last_sync: object | null;
     pending_remote: { purchases: number; reviews: number };
     last_pull: string;
   }>> {
-    return this.request('GET', '/sync/status');
+    return this.request('GET', '/sync/status', undefined, requestOptions);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Ledger (local, FREE)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Compare the local spend ledger with the server's transaction history.
+   * Fetches history back to the oldest ledger entry in the queried range.
+   */
+  async reconcileLedger(
+    query: LedgerQuery = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ApiResponse<ReconciliationReport>> {
+    if (!this.ledger) {
+      return this.fail('LEDGER_DISABLED', 'The credit ledger is disabled for this client');
+    }
+
+    const entries = await this.ledger.getEntries(query);
+    const oldest = query.since ?? entries[0]?.timestamp;
+    // Allow for clock drift between the server and this machine
+    const cutoff = oldest ? new Date(new Date(oldest).getTime() - 5 * 60 * 1000).toISOString() : undefined;
+
+    const transactions: Transaction[] = [];
+    try {
+      for await (const transaction of this.iterateTransactions({}, requestOptions)) {
+        // History is newest-first: stop once we are past the ledger's range
+        if (cutoff && transaction.created_at < cutoff) break;
+        transactions.push(transaction);
+      }
+    } catch (error) {
+      if (error instanceof SovereignError) {
+        return this.fail(error.apiCode, error.message);
+      }
+      throw error;
+    }
+
+    return { success: true, data: await this.ledger.reconcile(transactions, query) };
   }
 
   // ---------------------------------------------------------------------------
   // Pricing (FREE)
   // ---------------------------------------------------------------------------
 
-  async getPricing(): Promise<ApiResponse<{
+  async getPricing(requestOptions: RequestOptions = {}): Promise<ApiResponse<{
     pricing: Record<string, Array<{ method: string; path: string; credits: number; description: string }>>;
     summary: { free_endpoints: number; paid_endpoints: number; average_cost: number; most_expensive: number };
     notes: string[];
   }>> {
-    return this.request('GET', '/pricing');
+    return this.request('GET', '/pricing', undefined, requestOptions);
   }
 
   // ---------------------------------------------------------------------------
   // Health (FREE)
   // ---------------------------------------------------------------------------
 
-  async health(): Promise<ApiResponse<{ status: string; timestamp: string }>> {
-    return this.request('GET', '/../health');
+  async health(requestOptions: RequestOptions = {}): Promise<ApiResponse<{ status: string; timestamp: string }>> {
+    return this.request('GET', '/../health', undefined, requestOptions);
   }
 
   // ---------------------------------------------------------------------------
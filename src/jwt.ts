@@ -0,0 +1,29 @@
+// =============================================================================
+// mcpSovereign SDK - JWT Helpers
+// =============================================================================
+// Read the claims of an auth token without verifying it. The server is the
+// only party that checks the signature; the client just needs `exp` to know
+// when to re-authenticate.
+
+/**
+ * Decode the payload of a JWT (null if the token is not a well-formed JWT)
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+    return payload && typeof payload === 'object' ? payload as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry from the `exp` claim (null if absent or unreadable)
+ */
+export function getJwtExpiry(token: string): Date | null {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? new Date(exp * 1000) : null;
+}
@@ -0,0 +1,235 @@
+// =============================================================================
+// mcpSovereign SDK - Credit Spend Ledger
+// =============================================================================
+// Every call that reports X-Credits-Charged is appended to a local JSONL
+// ledger next to the store (sovereign-store.ledger.jsonl). The file is
+// append-only: entries are never rewritten, so it doubles as an audit trail.
+//
+// reconcile() compares the ledger with the server's transaction history and
+// flags charges that only one side knows about.
+
+import { randomUUID } from 'crypto';
+import type { Transaction } from './index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LedgerEntry {
+  id: string;
+  timestamp: string;
+  method: string;
+  endpoint: string;
+  credits: number;
+  balance_after: number | null;
+  operation_id: string;
+}
+
+export interface LedgerQuery {
+  since?: string;
+  until?: string;
+  endpoint?: string;
+}
+
+export interface LedgerDiscrepancy {
+  type: 'missing_remote' | 'missing_local' | 'amount_mismatch';
+  entry?: LedgerEntry;
+  transaction?: Transaction;
+  message: string;
+}
+
+export interface ReconciliationReport {
+  checked_at: string;
+  ledger_entries: number;
+  remote_transactions: number;
+  matched: number;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+// Server timestamps and local ones can drift a little
+const MATCH_WINDOW_MS = 5 * 60 * 1000;
+
+// =============================================================================
+// Credit Ledger
+// =============================================================================
+
+export class CreditLedger {
+  private filePath: string;
+  private fs: typeof import('fs') | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Default ledger location for a given local store path
+   */
+  static pathFor(storePath: string): string {
+    return storePath.replace(/\.json$/, '') + '.ledger.jsonl';
+  }
+
+  getPath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Append a charged call to the ledger
+   */
+  async record(entry: Omit<LedgerEntry, 'id' | 'timestamp' | 'operation_id'> & {
+    timestamp?: string;
+    operation_id?: string;
+  }): Promise<LedgerEntry> {
+    const fs = await this.getFs();
+
+    const full: LedgerEntry = {
+      id: randomUUID(),
+      timestamp: entry.timestamp || new Date().toISOString(),
+      method: entry.method,
+      endpoint: entry.endpoint.split('?')[0],
+      credits: entry.credits,
+      balance_after: entry.balance_after,
+      operation_id: entry.operation_id || randomUUID()
+    };
+
+    fs.appendFileSync(this.filePath, JSON.stringify(full) + '\n');
+    return full;
+  }
+
+  /**
+   * Read ledger entries, optionally filtered by time range and endpoint
+   */
+  async getEntries(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    const fs = await this.getFs();
+    if (!fs.existsSync(this.filePath)) return [];
+
+    const entries: LedgerEntry[] = [];
+    for (const line of fs.readFileSync(this.filePath, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as LedgerEntry);
+      } catch {
+        // A torn final line from a crash - skip it
+      }
+    }
+
+    return entries.filter(e =>
+      (!query.since || e.timestamp >= query.since) &&
+      (!query.until || e.timestamp < query.until) &&
+      (!query.endpoint || e.endpoint === query.endpoint)
+    );
+  }
+
+  /**
+   * Total credits spent per endpoint ("POST /sync/push" → credits)
+   */
+  async spendByEndpoint(query: LedgerQuery = {}): Promise<Record<string, number>> {
+    const totals: Record<string, number> = {};
+    for (const entry of await this.getEntries(query)) {
+      const key = `${entry.method} ${entry.endpoint}`;
+      totals[key] = (totals[key] || 0) + entry.credits;
+    }
+    return totals;
+  }
+
+  /**
+   * Total credits spent per UTC day ("2025-01-31" → credits)
+   */
+  async spendByDay(query: LedgerQuery = {}): Promise<Record<string, number>> {
+    const totals: Record<string, number> = {};
+    for (const entry of await this.getEntries(query)) {
+      const day = entry.timestamp.slice(0, 10);
+      totals[day] = (totals[day] || 0) + entry.credits;
+    }
+    return totals;
+  }
+
+  /**
+   * Compare the ledger with remote transactions (from getTransactionHistory).
+   * Only debits are considered; credit purchases and sales never hit the ledger.
+   * Transactions carry no endpoint, so with `query.endpoint` set, server debits
+   * left unmatched are not reported as missing_local.
+   */
+  async reconcile(transactions: Transaction[], query: LedgerQuery = {}): Promise<ReconciliationReport> {
+    const entries = await this.getEntries(query);
+    const debits = transactions.filter(t => Number(t.amount) < 0 &&
+      (!query.since || t.created_at >= query.since) &&
+      (!query.until || t.created_at < query.until));
+
+    const unmatched = new Set(debits);
+    const discrepancies: LedgerDiscrepancy[] = [];
+    let matched = 0;
+
+    for (const entry of entries) {
+      const match = findMatch(entry, unmatched);
+
+      if (!match) {
+        discrepancies.push({
+          type: 'missing_remote',
+          entry,
+          message: `${entry.credits} credits charged for ${entry.method} ${entry.endpoint} at ${entry.timestamp} has no server transaction`
+        });
+        continue;
+      }
+
+      unmatched.delete(match);
+      const remoteAmount = Math.abs(Number(match.amount));
+      if (remoteAmount !== entry.credits) {
+        discrepancies.push({
+          type: 'amount_mismatch',
+          entry,
+          transaction: match,
+          message: `${entry.method} ${entry.endpoint}: ledger says ${entry.credits} credits, server says ${remoteAmount}`
+        });
+      } else {
+        matched++;
+      }
+    }
+
+    for (const transaction of query.endpoint ? [] : unmatched) {
+      discrepancies.push({
+        type: 'missing_local',
+        transaction,
+        message: `Server debit of ${Math.abs(Number(transaction.amount))} credits (${transaction.type}) at ${transaction.created_at} is not in the local ledger`
+      });
+    }
+
+    return {
+      checked_at: new Date().toISOString(),
+      ledger_entries: entries.length,
+      remote_transactions: debits.length,
+      matched,
+      discrepancies
+    };
+  }
+
+  private async getFs(): Promise<typeof import('fs')> {
+    if (!this.fs) {
+      this.fs = await import('fs');
+    }
+    return this.fs;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Prefer an exact balance_after match; fall back to amount + time proximity
+ */
+function findMatch(entry: LedgerEntry, candidates: Set<Transaction>): Transaction | undefined {
+  const entryTime = new Date(entry.timestamp).getTime();
+  let byTime: Transaction | undefined;
+
+  for (const t of candidates) {
+    if (entry.balance_after !== null && Number(t.balance_after) === entry.balance_after) {
+      return t;
+    }
+    const close = Math.abs(new Date(t.created_at).getTime() - entryTime) <= MATCH_WINDOW_MS;
+    if (!byTime && close && Math.abs(Number(t.amount)) === entry.credits) {
+      byTime = t;
+    }
+  }
+
+  return byTime;
+}
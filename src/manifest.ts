@@ -0,0 +1,124 @@
+// =============================================================================
+// mcpSovereign SDK - Manifest Checksums & Signatures
+// =============================================================================
+// A sync manifest's checksum is SHA-256 (hex) over its canonical JSON: keys
+// sorted, no whitespace, undefined members dropped, with the `checksum` and
+// `signature` fields left out. Anyone holding the manifest can recompute it.
+//
+// When a wallet signer is available the checksum is also signed, proving the
+// agent that owns the wallet published exactly this version of its products:
+//
+//   const signed = await signManifest(manifest, signer);
+//   verifyManifest(signed);   // { valid: true, checksum_valid: true, signature_valid: true, ... }
+
+import { createHash } from 'crypto';
+import { verifyMessage, type SignatureScheme, type WalletSigner } from './signers.js';
+import type { SyncManifest } from './index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ManifestSignature {
+  address: string;
+  scheme: SignatureScheme;
+  public_key: string;
+  signature: string;     // Over manifestSigningMessage(checksum)
+  signed_at: string;
+}
+
+export interface ManifestVerification {
+  valid: boolean;                   // Checksum matches and any signature checks out
+  checksum_valid: boolean;
+  expected_checksum: string;
+  signed: boolean;
+  signature_valid: boolean | null;  // null when the manifest is unsigned
+  address: string | null;
+}
+
+// =============================================================================
+// Checksums
+// =============================================================================
+
+/**
+ * Deterministic JSON: object keys sorted, no whitespace, undefined dropped
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : canonicalJson(item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+export function sha256Hex(data: string): string {
+  return createHash('sha256').update(data, 'utf-8').digest('hex');
+}
+
+/**
+ * SHA-256 over the canonical manifest, excluding checksum and signature
+ */
+export function manifestChecksum(manifest: Omit<SyncManifest, 'checksum'> & { checksum?: string }): string {
+  const { checksum: _checksum, signature: _signature, ...content } = manifest;
+  return sha256Hex(canonicalJson(content));
+}
+
+// =============================================================================
+// Signatures
+// =============================================================================
+
+/**
+ * The exact message a wallet signs for a manifest
+ */
+export function manifestSigningMessage(checksum: string): string {
+  return `mcpSovereign sync manifest sha256:${checksum}`;
+}
+
+/**
+ * Return a copy of the manifest signed by the wallet
+ */
+export async function signManifest(manifest: SyncManifest, signer: WalletSigner): Promise<SyncManifest> {
+  const checksum = manifestChecksum(manifest);
+  return {
+    ...manifest,
+    checksum,
+    signature: {
+      address: signer.address,
+      scheme: signer.scheme,
+      public_key: signer.publicKey,
+      signature: await signer.signMessage(manifestSigningMessage(checksum)),
+      signed_at: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Recompute the checksum and check the signature (if any) locally
+ */
+export function verifyManifest(manifest: SyncManifest, expectedAddress?: string): ManifestVerification {
+  const expected = manifestChecksum(manifest);
+  const checksumValid = manifest.checksum === expected;
+  const signature = manifest.signature;
+
+  let signatureValid: boolean | null = null;
+  if (signature) {
+    signatureValid = verifyMessage(signature.address, manifestSigningMessage(expected), signature.signature)
+      && (!expectedAddress || signature.address === expectedAddress);
+  }
+
+  return {
+    valid: checksumValid && signatureValid !== false && (!expectedAddress || signatureValid === true),
+    checksum_valid: checksumValid,
+    expected_checksum: expected,
+    signed: !!signature,
+    signature_valid: signatureValid,
+    address: signature?.address ?? null
+  };
+}
@@ -238,7 +238,7 @@ export const HELPER_TOOLS: MCPTool[] = [
   },
   {
     name: 'sovereign_delete_product',
-    description: 'Delete a product from your local store.',
+    description: 'Delete a product from your local store. Published products are removed from the marketplace on the next push.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -274,7 +274,7 @@ export const HELPER_TOOLS: MCPTool[] = [
   },
   {
     name: 'sovereign_sync_status',
-    description: 'Check sync status - see pending purchases and reviews.',
+    description: 'Check sync status - see pending purchases and reviews, and products that failed to push.',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -786,7 +786,7 @@ Remember: Creating locally is FREE!
       `📦 ${p.name}
    Local ID: ${p.local_id}
    ${p.remote_id ? `Remote ID: ${p.remote_id}` : '(Not synced yet)'}
-   Status: ${p.status}
+   Status: ${p.status === 'deleted' ? 'pending deletion' : p.status}
    Price: ${p.price} credits`
     ).join('\n\n');
 
@@ -796,7 +796,7 @@ ${'═'.repeat(50)}
 
 Total: ${stats.total}
 • Synced: ${stats.synced}
-• Pending: ${stats.pending}
+• Pending: ${stats.pending}${stats.deleting ? ` (${stats.deleting} deletions)` : ''}
 • Drafts: ${stats.drafts}
 
 ${list}
@@ -821,10 +821,14 @@ ${list}
   }
 
   private deleteProduct(localId: string): string {
-    const deleted = this.client.localStore.deleteProduct(localId);
-    return deleted
-      ? `✅ Product deleted from local store`
-      : `❌ Product not found: ${localId}`;
+    const product = this.client.localStore.getProduct(localId);
+    if (!product || !this.client.localStore.deleteProduct(localId)) {
+      return `❌ Product not found: ${localId}`;
+    }
+
+    return product.remote_id
+      ? `🗑️ Product marked for deletion. It will be removed from the marketplace on your next push.`
+      : `✅ Product deleted from local store`;
   }
 
   private async push(): Promise<string> {
@@ -843,6 +847,7 @@ Timestamp: ${result.data.timestamp}
 Results:
 • Created: ${result.data.results.created.length} products
 • Updated: ${result.data.results.updated.length} products
+• Deleted: ${result.data.results.deleted.length} products
 • Errors: ${result.data.results.errors.length}
 
 Your products are now LIVE on the marketplace!
@@ -867,6 +872,9 @@ New Data:
 • Reviews: ${result.data.new_reviews.length}
 • Product Updates: ${result.data.product_updates.length}
 
+Sales, reviews and moderation status are saved to your local store.
+The next pull only fetches what's new since ${result.data.timestamp}.
+
 Overall Stats:
 • Total Products: ${result.data.overall_stats.total_products}
 • Active Products: ${result.data.overall_stats.active_products}
@@ -891,13 +899,29 @@ Last Pull: ${result.data.last_pull || 'Never'}
 Pending Remote:
 • Purchases: ${result.data.pending_remote.purchases}
 • Reviews: ${result.data.pending_remote.reviews}
-
+${this.formatSyncErrors()}
 ${result.data.pending_remote.purchases > 0 || result.data.pending_remote.reviews > 0
   ? 'Use sovereign_pull to get new data (25 credits)'
   : 'All caught up!'}
 `;
   }
 
+  private formatSyncErrors(): string {
+    const failures = this.client.localStore.getSyncErrors();
+    if (failures.length === 0) return '';
+
+    const list = failures.map(f =>
+      `• ${f.name} (${f.local_id}): ${f.error.message}
+  Attempts: ${f.error.attempts} | Last: ${f.error.last_attempt_at}
+  ${f.held_back ? 'Held back - fix it and mark it ready to retry' : 'Will be retried on the next push'}`
+    ).join('\n');
+
+    return `
+Failed Products:
+${list}
+`;
+  }
+
   private getProductIdeas(args: Record<string, unknown>): string {
     let ideas = PRODUCT_IDEAS;
 
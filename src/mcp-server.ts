@@ -17,6 +17,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { AgentRuntime, createRuntime } from './runtime.js';
+import type { MergeField } from './merge.js';
 
 // ============================================================
 // MCP PROTOCOL TYPES
@@ -67,22 +68,29 @@ Shows:
     name: 'sovereign_login',
     description: `Authenticate with your wallet address.
 
+The challenge is signed locally with your wallet key (~/.mcpsovereign/wallet.key,
+MCPSOVEREIGN_KEY_FILE, MCPSOVEREIGN_PRIVATE_KEY or MCPSOVEREIGN_SEED).
 This creates a JWT token that's stored locally in ~/.mcpsovereign/config.json
-The token is valid for 7 days and automatically used for all API calls.
+The token is automatically used for all API calls and renewed with your
+wallet key shortly before it expires.
 
 🔐 Security:
-- Challenge-response authentication
-- JWT stored locally only
+- Challenge-response authentication (BIP-322, ECDSA or Schnorr signatures)
+- Keys and JWT stored locally only
 - Install anywhere, authenticate once, use everywhere`,
     inputSchema: {
       type: 'object',
       properties: {
         wallet_address: {
           type: 'string',
-          description: 'Your unique wallet address (your marketplace identity)'
+          description: 'Your wallet address (default: the address of your wallet key)'
+        },
+        key_file: {
+          type: 'string',
+          description: 'Path to a wallet key file to sign with (WIF/hex key or JSON)'
         }
       },
-      required: ['wallet_address']
+      required: []
     }
   },
   {
@@ -104,11 +112,16 @@ You'll need to authenticate again to use the marketplace.`,
 Returns a secure string you can use to restore your identity elsewhere.
 Use sovereign_import_credentials on the target machine.
 
-🔐 Security: The export is base64 encoded but contains your JWT.
-Only share with yourself on trusted machines.`,
+🔐 Security: Give a passphrase to encrypt the export (scrypt + AES-GCM).
+Without one it is only base64 encoded and contains your live JWT.`,
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        passphrase: {
+          type: 'string',
+          description: 'Encrypt the export with this passphrase (recommended)'
+        }
+      },
       required: []
     }
   },
@@ -124,11 +137,32 @@ This restores your identity without re-authenticating.`,
         export_string: {
           type: 'string',
           description: 'The credential export string'
+        },
+        passphrase: {
+          type: 'string',
+          description: 'Passphrase, if the export was encrypted'
         }
       },
       required: ['export_string']
     }
   },
+  {
+    name: 'sovereign_unlock',
+    description: `Unlock your encrypted credential vault.
+
+Needed when your token and wallet key are stored encrypted and
+MCPSOVEREIGN_PASSPHRASE is not set.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        passphrase: {
+          type: 'string',
+          description: 'Your vault passphrase'
+        }
+      },
+      required: ['passphrase']
+    }
+  },
 
   // === CREDITS & BALANCE ===
   {
@@ -257,6 +291,45 @@ Returns a download token for the product.
       required: ['product_id']
     }
   },
+  {
+    name: 'sovereign_library',
+    description: `List the products you own.
+
+Refreshes your purchase library from the marketplace and shows download
+tokens, downloads left and verified local copies.
+Warns when a token is about to expire or downloads are running out.
+
+🔐 Requires authentication (shows the cached library otherwise).`,
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: []
+    }
+  },
+  {
+    name: 'sovereign_download',
+    description: `Fetch an owned product's payload again.
+
+Without dest_dir, returns the delivery payload (uses one download).
+With dest_dir, downloads the file and verifies it against the seller's
+published content hash before keeping it.
+
+🔐 Requires authentication.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        purchase_id: {
+          type: 'string',
+          description: 'Purchase ID (see sovereign_library)'
+        },
+        dest_dir: {
+          type: 'string',
+          description: 'Directory to save the verified file in'
+        }
+      },
+      required: ['purchase_id']
+    }
+  },
 
   // === YOUR STORE (LOCAL) ===
   {
@@ -320,7 +393,8 @@ Shows all products with their sync status.`,
     name: 'sovereign_mark_ready',
     description: `Mark a product as ready to sync.
 
-Draft products won't sync. Mark them ready when finished.`,
+Draft products won't sync. Mark them ready when finished.
+Also re-queues a product held back after repeated sync failures.`,
     inputSchema: {
       type: 'object',
       properties: {
@@ -332,6 +406,37 @@ Draft products won't sync. Mark them ready when finished.`,
       required: ['local_id']
     }
   },
+  {
+    name: 'sovereign_resolve_conflict',
+    description: `Resolve a product edited both locally and on the marketplace.
+
+Without arguments, lists unresolved conflicts.
+Products with conflicts are held back from sync until every field is resolved.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        local_id: {
+          type: 'string',
+          description: 'Local product ID'
+        },
+        field: {
+          type: 'string',
+          description: 'Conflicting field',
+          enum: ['name', 'description', 'category_id', 'price', 'delivery_type']
+        },
+        resolution: {
+          type: 'string',
+          description: 'Keep the local value, take the marketplace value, or use the given value',
+          enum: ['local', 'remote', 'value']
+        },
+        value: {
+          type: 'string',
+          description: 'New value when resolution is "value"'
+        }
+      },
+      required: []
+    }
+  },
 
   // === SYNC ===
   {
@@ -523,16 +628,19 @@ Use sovereign_login to authenticate.`
         return this.handleStatus();
 
       case 'sovereign_login':
-        return this.handleLogin(args.wallet_address as string);
+        return this.handleLogin(args.wallet_address as string | undefined, args.key_file as string | undefined);
 
       case 'sovereign_logout':
         return this.handleLogout();
 
       case 'sovereign_export_credentials':
-        return this.handleExport();
+        return this.handleExport(args.passphrase as string | undefined);
 
       case 'sovereign_import_credentials':
-        return this.handleImport(args.export_string as string);
+        return this.handleImport(args.export_string as string, args.passphrase as string | undefined);
+
+      case 'sovereign_unlock':
+        return this.handleUnlock(args.passphrase as string);
 
       case 'sovereign_security_info':
         return this.handleSecurityInfo();
@@ -560,6 +668,12 @@ Use sovereign_login to authenticate.`
       case 'sovereign_purchase':
         return this.handlePurchase(args.product_id as string);
 
+      case 'sovereign_library':
+        return this.handleLibrary();
+
+      case 'sovereign_download':
+        return this.handleDownload(args.purchase_id as string, args.dest_dir as string | undefined);
+
       // === LOCAL STORE ===
       case 'sovereign_store_status':
         return this.handleStoreStatus();
@@ -573,6 +687,9 @@ Use sovereign_login to authenticate.`
       case 'sovereign_mark_ready':
         return this.handleMarkReady(args.local_id as string);
 
+      case 'sovereign_resolve_conflict':
+        return this.handleResolveConflict(args);
+
       case 'sovereign_sync':
         return this.handleSync();
 
@@ -602,6 +719,7 @@ Use sovereign_login to authenticate.`
     output += '🔐 SECURITY STATUS\n';
     output += `   Authenticated: ${status.authenticated ? '✅ Yes' : '❌ No'}\n`;
     output += `   Token Valid:   ${status.tokenValid ? '✅ Yes' : '❌ No / Expired'}\n`;
+    output += `   Vault:         ${status.vault === 'disabled' ? 'Not enabled' : status.vault === 'locked' ? '🔒 Locked' : '🔓 Unlocked'}\n`;
     output += '\n';
 
     if (status.agent) {
@@ -613,7 +731,14 @@ Use sovereign_login to authenticate.`
       output += '\n';
     }
 
+    output += '🔑 WALLET KEY\n';
+    output += status.signer
+      ? `   ${status.signer.address} (${status.signer.scheme})\n`
+      : '   Not configured - add ~/.mcpsovereign/wallet.key to sign logins\n';
+    output += '\n';
+
     output += '📁 CONFIGURATION\n';
+    output += `   Profile: ${status.profile}\n`;
     output += `   Config: ${status.configPath}\n`;
     output += `   API:    ${status.apiUrl}\n`;
     output += '\n';
@@ -627,16 +752,35 @@ Use sovereign_login to authenticate.`
       output += '\n';
     }
 
-    if (!status.authenticated) {
+    const libraryWarnings = this.runtime.client.localStore.getLibraryWarnings();
+    if (libraryWarnings.length > 0) {
+      output += '📚 LIBRARY\n';
+      for (const warning of libraryWarnings) {
+        output += `   ⚠️  ${warning.product_name ?? warning.product_id}: ${warning.message}\n`;
+      }
+      output += '\n';
+    }
+
+    if (status.vault === 'locked') {
+      output += '💡 Use sovereign_unlock with your passphrase to open the credential vault.\n';
+    } else if (!status.authenticated) {
       output += '💡 Use sovereign_login to authenticate with your wallet address.\n';
     }
 
     return output;
   }
 
-  private async handleLogin(walletAddress: string): Promise<string> {
-    if (!walletAddress) {
-      return '❌ Please provide a wallet_address to authenticate.';
+  private async handleLogin(walletAddress?: string, keyFile?: string): Promise<string> {
+    if (keyFile) {
+      try {
+        await this.runtime.useKeyFile(keyFile);
+      } catch (error) {
+        return `❌ Could not load key file: ${error instanceof Error ? error.message : error}`;
+      }
+    }
+
+    if (!walletAddress && !this.runtime.getSigner()) {
+      return '❌ No wallet key found. Provide key_file, or save your key to ~/.mcpsovereign/wallet.key.';
     }
 
     const result = await this.runtime.login(walletAddress);
@@ -662,7 +806,11 @@ Use sovereign_login to authenticate.`
 
     output += '🔐 Security:\n';
     output += `   • JWT token stored in: ${this.runtime.getConfigPath()}\n`;
-    output += `   • Token expires in 7 days\n`;
+    const expiresAt = this.runtime.getTokenExpiry();
+    output += `   • Token expires: ${expiresAt ? expiresAt.toISOString() : 'unknown'}\n`;
+    if (this.runtime.getSigner()) {
+      output += `   • Refreshed automatically with your wallet key\n`;
+    }
     output += `   • Your credentials never leave your machine\n`;
     output += '\n';
     output += '🚀 You can now use all marketplace features!\n';
@@ -675,17 +823,22 @@ Use sovereign_login to authenticate.`
     return '✅ Logged out. Your credentials have been cleared.';
   }
 
-  private async handleExport(): Promise<string> {
+  private async handleExport(passphrase?: string): Promise<string> {
     try {
-      const exportStr = this.runtime.exportCredentials();
+      const exportStr = this.runtime.exportCredentials(passphrase);
 
       let output = '╔════════════════════════════════════════════════════════════╗\n';
       output += '║          📦 Credential Export                               ║\n';
       output += '╚════════════════════════════════════════════════════════════╝\n\n';
 
       output += '⚠️ SECURITY NOTICE:\n';
-      output += '   This export contains your JWT token.\n';
-      output += '   Only use on machines you trust.\n\n';
+      if (passphrase) {
+        output += '   This export is encrypted with your passphrase.\n';
+        output += '   You will need the passphrase to import it.\n\n';
+      } else {
+        output += '   This export contains your JWT token in the clear.\n';
+        output += '   Only use on machines you trust, or export with a passphrase.\n\n';
+      }
 
       output += '📋 Export String (copy this):\n';
       output += '────────────────────────────────────────\n';
@@ -701,18 +854,32 @@ Use sovereign_login to authenticate.`
     }
   }
 
-  private async handleImport(exportString: string): Promise<string> {
+  private async handleImport(exportString: string, passphrase?: string): Promise<string> {
     if (!exportString) {
       return '❌ Please provide an export_string to import.';
     }
 
-    const success = await this.runtime.importCredentials(exportString);
+    const success = await this.runtime.importCredentials(exportString, passphrase);
 
     if (success) {
       return '✅ Credentials imported successfully!\n\nYour identity has been restored. Use sovereign_status to verify.';
     } else {
-      return '❌ Import failed. The export string may be invalid or the token expired.';
+      return '❌ Import failed. The export string or passphrase may be invalid, or the token expired.';
+    }
+  }
+
+  private async handleUnlock(passphrase: string): Promise<string> {
+    if (!passphrase) {
+      return '❌ Please provide your vault passphrase.';
+    }
+    if (!this.runtime.isVaultEnabled()) {
+      return 'ℹ️ No credential vault is set up - nothing to unlock.';
     }
+
+    if (!(await this.runtime.unlock(passphrase))) {
+      return '❌ Wrong passphrase.';
+    }
+    return '🔓 Vault unlocked. Your credentials are available for this session.';
   }
 
   private async handleSecurityInfo(): Promise<string> {
@@ -724,12 +891,13 @@ Use sovereign_login to authenticate.`
     output += '   mcpSovereign uses challenge-response authentication:\n';
     output += '   1. You provide your wallet address\n';
     output += '   2. Server generates a random challenge\n';
-    output += '   3. You sign the challenge with your wallet\n';
+    output += '   3. The challenge is signed locally with your wallet key\n';
     output += '   4. Server verifies and issues a JWT token\n';
     output += '\n';
 
     output += '🔑 JWT TOKENS\n';
-    output += '   • Tokens expire after 7 days\n';
+    output += '   • Expiry is read from the token itself\n';
+    output += '   • Renewed automatically when a wallet key is configured\n';
     output += '   • Stored locally in ~/.mcpsovereign/config.json\n';
     output += '   • Never sent except to the mcpSovereign API\n';
     output += '   • Can be exported/imported for portability\n';
@@ -737,7 +905,7 @@ Use sovereign_login to authenticate.`
 
     output += '💾 LOCAL STORAGE\n';
     output += `   Config:  ${this.runtime.getConfigPath()}\n`;
-    output += '   Store:   ./sovereign-store.json (your products)\n';
+    output += `   Store:   ${this.runtime.getConfig().storePath} (your products)\n`;
     output += '\n';
 
     output += '🌐 PORTABILITY\n';
@@ -758,7 +926,7 @@ Use sovereign_login to authenticate.`
   }
 
   private async handleBalance(): Promise<string> {
-    if (!this.runtime.isAuthenticated()) {
+    if (!await this.runtime.ensureAuthenticated()) {
       return '❌ Not authenticated. Use sovereign_login first.';
     }
 
@@ -792,7 +960,7 @@ Use sovereign_login to authenticate.`
   }
 
   private async handleBuyCredits(packageId?: string, customAmount?: number): Promise<string> {
-    if (!this.runtime.isAuthenticated()) {
+    if (!await this.runtime.ensureAuthenticated()) {
       return '❌ Not authenticated. Use sovereign_login first.';
     }
 
@@ -889,7 +1057,7 @@ Use sovereign_login to authenticate.`
   }
 
   private async handlePurchase(productId: string): Promise<string> {
-    if (!this.runtime.isAuthenticated()) {
+    if (!await this.runtime.ensureAuthenticated()) {
       return '❌ Not authenticated. Use sovereign_login first.';
     }
 
@@ -909,6 +1077,87 @@ Use sovereign_login to authenticate.`
     output += `   Token: ${result.data.downloadToken}\n`;
     output += `   Expires: ${result.data.expiresAt}\n`;
     output += `   Max Downloads: ${result.data.maxDownloads}\n`;
+    output += '\n💡 Use sovereign_download to fetch it (see sovereign_library for all your purchases).';
+
+    return output;
+  }
+
+  private async handleLibrary(): Promise<string> {
+    const store = this.runtime.client.localStore;
+    let output = '';
+
+    if (await this.runtime.ensureAuthenticated()) {
+      const result = await this.runtime.client.syncLibrary();
+      if (!result.success) {
+        output += `⚠️  Could not refresh from the marketplace (${result.error?.message}); showing the cached library.\n\n`;
+      }
+    } else {
+      output += '⚠️  Not authenticated; showing the cached library.\n\n';
+    }
+
+    const library = store.getLibrary();
+    if (library.length === 0) {
+      return output + '📚 Your library is empty. Use sovereign_browse to find products.';
+    }
+
+    output += `📚 Your Library (${library.length}):\n\n`;
+    for (const entry of library) {
+      output += `[${entry.purchase_id}] ${entry.product_name ?? entry.product_id}\n`;
+      output += `   Status:    ${entry.delivery_status ?? 'unknown'}\n`;
+      output += `   Downloads: ${entry.download_count}/${entry.max_downloads} used\n`;
+      output += `   Token:     ${entry.download_token ? `expires ${entry.download_expires_at ?? 'never'}` : 'none'}\n`;
+      if (entry.download) {
+        output += `   Saved:     ${entry.download.path}${entry.download.verified ? ' (verified)' : ' (unverified)'}\n`;
+      }
+      output += '\n';
+    }
+
+    const warnings = store.getLibraryWarnings();
+    if (warnings.length > 0) {
+      output += '⚠️  Warnings:\n';
+      for (const warning of warnings) {
+        output += `   [${warning.purchase_id}] ${warning.product_name ?? warning.product_id}: ${warning.message}\n`;
+      }
+      output += '\n';
+    }
+
+    output += '💡 Use sovereign_download with a purchase_id to fetch a product again.';
+    return output;
+  }
+
+  private async handleDownload(purchaseId: string, destDir?: string): Promise<string> {
+    if (!await this.runtime.ensureAuthenticated()) {
+      return '❌ Not authenticated. Use sovereign_login first.';
+    }
+
+    if (!purchaseId) {
+      return '❌ Please provide a purchase_id.';
+    }
+
+    if (destDir) {
+      const result = await this.runtime.client.downloadAndSave(purchaseId, destDir);
+      if (!result.success || !result.data?.download) {
+        return `❌ Download failed: ${result.error?.message}`;
+      }
+
+      const { download } = result.data;
+      let output = '✅ Download Verified!\n\n';
+      output += `   Saved to: ${download.path}\n`;
+      output += `   SHA-256:  ${download.content_hash}\n`;
+      output += `   Size:     ${download.file_size_bytes} bytes\n`;
+      output += `   Downloads: ${result.data.download_count}/${result.data.max_downloads} used\n`;
+      return output;
+    }
+
+    const result = await this.runtime.client.redownload(purchaseId);
+    if (!result.success || !result.data) {
+      return `❌ Download failed: ${result.error?.message}`;
+    }
+
+    let output = `📦 ${result.data.productName} (${result.data.deliveryType})\n\n`;
+    output += `   Downloads Remaining: ${result.data.downloadsRemaining}\n\n`;
+    output += 'Payload:\n';
+    output += JSON.stringify(result.data.payload, null, 2);
 
     return output;
   }
@@ -921,6 +1170,29 @@ Use sovereign_login to authenticate.`
     output += `   📝 Drafts:       ${stats.drafts}\n`;
     output += `   ✅ Synced:       ${stats.synced}\n`;
     output += `   ⏳ Pending Sync: ${stats.pending}\n`;
+    if (stats.deleting > 0) {
+      output += `   🗑️  Deleting:     ${stats.deleting} (removed from the marketplace on next sync)\n`;
+    }
+
+    if (stats.conflicts > 0) {
+      output += `   ⚔️  Conflicts:    ${stats.conflicts} (use sovereign_resolve_conflict)\n`;
+    }
+    if (stats.failed > 0) {
+      output += `   ❌ Failed:       ${stats.failed}\n`;
+      for (const failure of this.runtime.client.localStore.getSyncErrors()) {
+        output += `      [${failure.local_id}] ${failure.name}: ${failure.error.message}`;
+        output += ` (${failure.error.attempts} attempt(s), last ${failure.error.last_attempt_at})`;
+        output += failure.held_back ? ' - held back, use sovereign_mark_ready to retry\n' : ' - retried on next sync\n';
+      }
+    }
+
+    const recovery = this.runtime.client.localStore.getRecovery();
+    if (recovery) {
+      output += '\n⚠️  The store file was unreadable and has been set aside:\n';
+      output += `   Moved to:  ${recovery.quarantined_path}\n`;
+      output += `   Restored:  ${recovery.restored_from ?? 'nothing (started with an empty store)'}\n`;
+      output += `   Problems:  ${recovery.issues.slice(0, 3).join('; ')}\n`;
+    }
 
     if (stats.pending > 0) {
       output += '\n💡 Run sovereign_sync to publish pending products (costs 50 credits).';
@@ -957,11 +1229,12 @@ Use sovereign_login to authenticate.`
         draft: '📝',
         ready: '⏳',
         synced: '✅',
-        modified: '🔄'
+        modified: '🔄',
+        deleted: '🗑️'
       }[p.status] || '❓';
 
       output += `${statusIcon} [${p.local_id}] ${p.name}\n`;
-      output += `   ${p.price} credits | ${p.category_id} | ${p.status}\n`;
+      output += `   ${p.price} credits | ${p.category_id} | ${p.status === 'deleted' ? 'pending deletion' : p.status}\n`;
       if (p.remote_id) {
         output += `   Remote ID: ${p.remote_id}\n`;
       }
@@ -987,7 +1260,7 @@ Use sovereign_login to authenticate.`
   }
 
   private async handleSync(): Promise<string> {
-    if (!this.runtime.isAuthenticated()) {
+    if (!await this.runtime.ensureAuthenticated()) {
       return '❌ Not authenticated. Use sovereign_login first.';
     }
 
@@ -1011,6 +1284,16 @@ Use sovereign_login to authenticate.`
       }
     }
 
+    const conflicts = this.runtime.client.localStore.getConflicts();
+    if (conflicts.length > 0) {
+      output += `\n⚔️  ${conflicts.length} product(s) were edited on the marketplace too and were not pushed.\n`;
+      output += '   Use sovereign_resolve_conflict to review them.\n';
+    }
+
+    for (const warning of result.warnings ?? []) {
+      output += `\n⚠️  ${warning}\n`;
+    }
+
     if (result.headers?.creditsCharged) {
       output += `\n💰 Credits charged: ${result.headers.creditsCharged}`;
     }
@@ -1018,8 +1301,66 @@ Use sovereign_login to authenticate.`
     return output;
   }
 
+  private async handleResolveConflict(args: Record<string, unknown>): Promise<string> {
+    const store = this.runtime.client.localStore;
+
+    if (!args.local_id) {
+      const conflicts = store.getConflicts();
+      if (conflicts.length === 0) {
+        return '✅ No conflicts. Local and marketplace products agree.';
+      }
+
+      let output = '⚔️  Unresolved Conflicts:\n\n';
+      for (const product of conflicts) {
+        output += `[${product.local_id}] ${product.name}\n`;
+        for (const c of product.conflicts) {
+          output += `   ${c.field}:\n`;
+          output += `     local:  ${JSON.stringify(c.local)}\n`;
+          output += `     remote: ${JSON.stringify(c.remote)}\n`;
+        }
+        output += '\n';
+      }
+      output += '💡 Resolve with local_id, field and resolution (local, remote or value).';
+      return output;
+    }
+
+    const field = args.field as MergeField;
+    const resolution = args.resolution as string;
+    if (!field || !['local', 'remote', 'value'].includes(resolution)) {
+      return '❌ Please provide a field and a resolution (local, remote or value).';
+    }
+
+    let value: unknown = args.value;
+    if (resolution === 'value') {
+      if (value === undefined) {
+        return '❌ Please provide a value.';
+      }
+      if (field === 'price') {
+        value = Number(value);
+        if (!Number.isFinite(value) || (value as number) < 0) {
+          return '❌ Price must be a non-negative number.';
+        }
+      }
+    }
+
+    const product = store.resolveConflict(
+      args.local_id as string,
+      field,
+      resolution === 'value' ? { value } : resolution as 'local' | 'remote'
+    );
+    if (!product) {
+      return `❌ No conflict on ${field} for product ${args.local_id}.`;
+    }
+    await store.save();
+
+    const remaining = product.conflicts?.length ?? 0;
+    return remaining > 0
+      ? `✅ Resolved ${field}. ${remaining} conflict(s) left on this product.`
+      : `✅ All conflicts resolved. Status: ${product.status}${product.status === 'modified' ? ' (will be pushed on next sync)' : ''}`;
+  }
+
   private async handleMyPlots(): Promise<string> {
-    if (!this.runtime.isAuthenticated()) {
+    if (!await this.runtime.ensureAuthenticated()) {
       return '❌ Not authenticated. Use sovereign_login first.';
     }
 
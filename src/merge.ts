@@ -0,0 +1,113 @@
+// =============================================================================
+// mcpSovereign SDK - Three-Way Merge
+// =============================================================================
+// Each synced product keeps a `base` snapshot: the field values the
+// marketplace had after the last successful sync. Before a push the remote
+// product is compared field by field against that base and the local copy:
+//
+//   local == base, remote != base   remote edit (moderation, another machine): take it
+//   local != base, remote == base   local edit: push it
+//   both changed, to different values   conflict: resolve with the field's strategy
+//
+// Strategies are 'local' (local wins), 'remote' (remote wins) or 'manual'
+// (keep both and wait for resolveConflict()).
+
+import type { LocalProduct, Product } from './index.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export const MERGE_FIELDS = ['name', 'description', 'category_id', 'price', 'delivery_type'] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number];
+export type ProductSnapshot = Pick<LocalProduct, MergeField>;
+export type MergeStrategy = 'local' | 'remote' | 'manual';
+
+export interface MergeOptions {
+  strategy?: MergeStrategy;                             // Default for every field (default: 'manual')
+  fields?: Partial<Record<MergeField, MergeStrategy>>;  // Per-field overrides
+}
+
+export interface ProductConflict {
+  field: MergeField;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+  detected_at: string;
+}
+
+export interface MergeResult {
+  merged: ProductSnapshot;
+  conflicts: ProductConflict[];    // Left for manual resolution
+  taken_from_remote: MergeField[];
+  kept_local: MergeField[];        // Local edits (including conflicts resolved as 'local')
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+/**
+ * Field values of a local product that take part in the merge
+ */
+export function snapshotOf(product: ProductSnapshot): ProductSnapshot {
+  return {
+    name: product.name,
+    description: product.description,
+    category_id: product.category_id,
+    price: product.price,
+    delivery_type: product.delivery_type
+  };
+}
+
+/**
+ * The same fields as the marketplace reports them (prices come back as strings)
+ */
+export function remoteSnapshot(product: Product): ProductSnapshot {
+  return { ...snapshotOf(product as unknown as ProductSnapshot), price: Number(product.price) };
+}
+
+/**
+ * Merge one product. Without a base every differing field counts as changed
+ * on both sides.
+ */
+export function threeWayMerge(
+  base: ProductSnapshot | undefined,
+  local: ProductSnapshot,
+  remote: ProductSnapshot,
+  options: MergeOptions = {}
+): MergeResult {
+  const merged = { ...local };
+  const result: MergeResult = { merged, conflicts: [], taken_from_remote: [], kept_local: [] };
+  const now = new Date().toISOString();
+
+  for (const field of MERGE_FIELDS) {
+    const localChanged = !base || local[field] !== base[field];
+    const remoteChanged = !base || remote[field] !== base[field];
+
+    if (local[field] === remote[field]) continue;
+
+    if (!localChanged) {
+      (merged as Record<MergeField, unknown>)[field] = remote[field];
+      result.taken_from_remote.push(field);
+      continue;
+    }
+    if (!remoteChanged) {
+      result.kept_local.push(field);
+      continue;
+    }
+
+    const strategy = options.fields?.[field] ?? options.strategy ?? 'manual';
+    if (strategy === 'remote') {
+      (merged as Record<MergeField, unknown>)[field] = remote[field];
+      result.taken_from_remote.push(field);
+    } else if (strategy === 'local') {
+      result.kept_local.push(field);
+    } else {
+      result.conflicts.push({ field, base: base?.[field], local: local[field], remote: remote[field], detected_at: now });
+    }
+  }
+
+  return result;
+}
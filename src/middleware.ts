@@ -0,0 +1,93 @@
+// =============================================================================
+// mcpSovereign SDK - Transport Middleware
+// =============================================================================
+// Hooks into SovereignClient.request without forking it:
+// - onRequest:  mutate headers/body/url before each attempt (tracing, auth, proxies)
+// - onResponse: inspect or replace the raw HTTP response of each attempt
+// - onError:    map the final failed ApiResponse (custom error codes, logging)
+//
+// Middleware runs in registration order. Combined with an injectable `fetch`
+// this is enough to add custom auth schemes or wire in test doubles.
+
+import type { ApiResponse } from './index.js';
+import type { HttpMethod } from './retry.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type FetchLike = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface RequestContext {
+  method: HttpMethod;
+  /** API path relative to the base URL, e.g. '/credits/balance' */
+  path: string;
+  /** Fully-qualified URL the request will be sent to */
+  url: string;
+  /** Outgoing headers (Content-Type and bearer auth are pre-filled) */
+  headers: Record<string, string>;
+  /** Request body; strings are sent as-is, anything else is JSON-encoded */
+  body?: unknown;
+  /** 0 for the first attempt, incremented on each retry */
+  attempt: number;
+}
+
+export interface Middleware {
+  name?: string;
+
+  onRequest?(context: RequestContext): RequestContext | void | Promise<RequestContext | void>;
+
+  onResponse?(context: RequestContext, response: Response): Response | void | Promise<Response | void>;
+
+  onError?(context: RequestContext, result: ApiResponse<unknown>): ApiResponse<unknown> | void | Promise<ApiResponse<unknown> | void>;
+}
+
+// =============================================================================
+// Chain Runners
+// =============================================================================
+
+export async function runRequestMiddleware(
+  middleware: Middleware[],
+  context: RequestContext
+): Promise<RequestContext> {
+  let current = context;
+  for (const mw of middleware) {
+    if (mw.onRequest) {
+      current = (await mw.onRequest(current)) || current;
+    }
+  }
+  return current;
+}
+
+export async function runResponseMiddleware(
+  middleware: Middleware[],
+  context: RequestContext,
+  response: Response
+): Promise<Response> {
+  let current = response;
+  for (const mw of middleware) {
+    if (mw.onResponse) {
+      current = (await mw.onResponse(context, current)) || current;
+    }
+  }
+  return current;
+}
+
+export async function runErrorMiddleware<T>(
+  middleware: Middleware[],
+  context: RequestContext,
+  result: ApiResponse<T>
+): Promise<ApiResponse<T>> {
+  let current = result;
+  for (const mw of middleware) {
+    if (mw.onError) {
+      current = ((await mw.onError(context, current)) as ApiResponse<T>) || current;
+    }
+  }
+  return current;
+}
+
+export function serializeBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
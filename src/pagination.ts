@@ -0,0 +1,130 @@
+// =============================================================================
+// mcpSovereign SDK - Pagination
+// =============================================================================
+// The API reports paging in two shapes:
+//   { products, total, page, limit }            (product browsing)
+//   { plots|transactions, pagination: {...} }    (everything else)
+// Both are normalised into PageInfo, and walked with `for await`:
+//
+//   for await (const product of client.iterateProducts({ category: 'prompts' })) {
+//     ...
+//   }
+
+import type { ApiResponse, Pagination } from './index.js';
+import { toSovereignError } from './errors.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface PageInfo {
+  page: number;
+  limit: number;
+  total: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+export interface PaginateOptions {
+  /** Stop after yielding this many items in total */
+  maxItems?: number;
+  /** Items requested per page (default: server default) */
+  pageSize?: number;
+  /** First page to fetch (default: 1) */
+  startPage?: number;
+}
+
+export type PageFetcher<T> = (page: number, limit: number | undefined) => Promise<ApiResponse<Page<T>>>;
+
+// =============================================================================
+// Normalisation
+// =============================================================================
+
+/**
+ * Build PageInfo from either `{ total, page, limit }` or a `Pagination` object
+ */
+export function normalizePagination(
+  source: Pagination | { total: number; page: number; limit: number },
+  itemCount: number
+): PageInfo {
+  const page = Number(source.page) || 1;
+  const limit = Number(source.limit) || itemCount;
+  const total = Number(source.total) || 0;
+  const totalPages = 'total_pages' in source && source.total_pages !== undefined
+    ? Number(source.total_pages)
+    : limit > 0 ? Math.ceil(total / limit) : 0;
+
+  return {
+    page,
+    limit,
+    total,
+    totalPages,
+    hasMore: page < totalPages && itemCount > 0
+  };
+}
+
+/**
+ * Map a paged API response into a normalised Page
+ */
+export function toPage<R, T>(
+  response: ApiResponse<R>,
+  extract: (data: R) => { items: T[]; pagination: Pagination | { total: number; page: number; limit: number } }
+): ApiResponse<Page<T>> {
+  if (!response.success || !response.data) {
+    return { ...response, data: null };
+  }
+
+  const { items, pagination } = extract(response.data);
+  return {
+    ...response,
+    data: { items, pageInfo: normalizePagination(pagination, items.length) }
+  };
+}
+
+// =============================================================================
+// Iterators
+// =============================================================================
+
+/**
+ * Walk every page in turn. Failed pages throw the matching SovereignError.
+ */
+export async function* paginatePages<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<Page<T>> {
+  let page = options.startPage ?? 1;
+  let remaining = options.maxItems ?? Infinity;
+
+  while (remaining > 0) {
+    const response = await fetchPage(page, options.pageSize);
+    if (!response.success || !response.data) {
+      throw toSovereignError(response);
+    }
+
+    const { items, pageInfo } = response.data;
+    const taken = items.slice(0, remaining);
+    remaining -= taken.length;
+
+    yield { items: taken, pageInfo };
+
+    if (!pageInfo.hasMore || items.length === 0) return;
+    page++;
+  }
+}
+
+/**
+ * Walk every item across all pages
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T> {
+  for await (const page of paginatePages(fetchPage, options)) {
+    yield* page.items;
+  }
+}
@@ -0,0 +1,69 @@
+// =============================================================================
+// mcpSovereign SDK - Named Profiles
+// =============================================================================
+// Several agents can share one config directory. The 'default' profile lives
+// at the top level (as it always has); named profiles get a directory each:
+//
+//   ~/.mcpsovereign/config.json                    default
+//   ~/.mcpsovereign/profiles/staging/config.json   staging
+//   ~/.mcpsovereign/profiles/staging/wallet.key
+//
+// The active profile comes from RuntimeOptions.profile, then the
+// MCPSOVEREIGN_PROFILE environment variable, then 'default'.
+
+import { join } from 'path';
+
+export const DEFAULT_PROFILE = 'default';
+export const PROFILE_ENV_VAR = 'MCPSOVEREIGN_PROFILE';
+
+const PROFILE_NAME = /^[a-zA-Z0-9][a-zA-Z0-9_-]{0,63}$/;
+
+/**
+ * Throw unless the name is safe to use as a directory name
+ */
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(`Invalid profile name '${name}': use letters, digits, '-' and '_' (max 64)`);
+  }
+}
+
+/**
+ * Profile to use when none is given explicitly
+ */
+export function selectedProfile(explicit?: string): string {
+  const name = explicit || process.env[PROFILE_ENV_VAR] || DEFAULT_PROFILE;
+  validateProfileName(name);
+  return name;
+}
+
+/**
+ * Directory holding a profile's config.json and wallet key
+ */
+export function profileDir(configDir: string, name: string): string {
+  validateProfileName(name);
+  return name === DEFAULT_PROFILE ? configDir : join(configDir, 'profiles', name);
+}
+
+/**
+ * Names of all profiles with a config file (default first)
+ */
+export async function listProfileNames(configDir: string): Promise<string[]> {
+  const fs = await import('fs');
+  const names: string[] = [];
+
+  if (fs.existsSync(join(configDir, 'config.json'))) {
+    names.push(DEFAULT_PROFILE);
+  }
+
+  const profilesDir = join(configDir, 'profiles');
+  if (fs.existsSync(profilesDir)) {
+    for (const entry of fs.readdirSync(profilesDir, { withFileTypes: true })) {
+      if (entry.isDirectory() && PROFILE_NAME.test(entry.name)
+        && fs.existsSync(join(profilesDir, entry.name, 'config.json'))) {
+        names.push(entry.name);
+      }
+    }
+  }
+
+  return names.sort((a, b) => a === DEFAULT_PROFILE ? -1 : b === DEFAULT_PROFILE ? 1 : a.localeCompare(b));
+}
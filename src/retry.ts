@@ -0,0 +1,193 @@
+// =============================================================================
+// mcpSovereign SDK - Retry Policy
+// =============================================================================
+// Exponential backoff with jitter for SovereignClient.request.
+//
+// Idempotent methods (GET, PUT, DELETE) are retried on transient failures.
+// Non-idempotent methods (POST, PATCH) are only retried when the request
+// provably never reached the server (connection refused, DNS failure) or the
+// server explicitly asked us to come back later (429/503 with Retry-After).
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt (default: 3) */
+  maxRetries?: number;
+
+  /** Delay before the first retry, doubled on each attempt (default: 250ms) */
+  baseDelayMs?: number;
+
+  /** Upper bound for a single backoff delay (default: 10s) */
+  maxDelayMs?: number;
+
+  /** Jitter strategy applied to the backoff delay (default: 'full') */
+  jitter?: 'full' | 'equal' | 'none';
+
+  /** HTTP status codes treated as transient (default: 408, 425, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+
+  /** Longest Retry-After we are willing to wait; longer values fail fast (default: 60s) */
+  maxRetryAfterMs?: number;
+
+  /** Per-method overrides, e.g. { POST: { maxRetries: 0 } } */
+  methods?: Partial<Record<HttpMethod, { maxRetries?: number }>>;
+}
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'methods'>> & Pick<RetryPolicy, 'methods'>;
+
+export type RetryFailure =
+  | { kind: 'network'; error: unknown }
+  | { kind: 'timeout' }
+  | { kind: 'status'; status: number; retryAfterMs: number | null };
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 10_000,
+  jitter: 'full',
+  retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+  maxRetryAfterMs: 60_000,
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+// Socket errors raised before any bytes were written - safe to retry anything
+const PRE_CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'];
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function resolveRetryPolicy(policy?: RetryPolicy | false): ResolvedRetryPolicy {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxRetries: 0 };
+  }
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+export function isIdempotentMethod(method: HttpMethod): boolean {
+  return IDEMPOTENT_METHODS.includes(method);
+}
+
+/**
+ * Maximum retries for a given method, honouring per-method overrides
+ */
+export function maxRetriesFor(policy: ResolvedRetryPolicy, method: HttpMethod): number {
+  return policy.methods?.[method]?.maxRetries ?? policy.maxRetries;
+}
+
+/**
+ * Decide whether a failed attempt may be retried.
+ * `replaySafe` marks non-idempotent requests that carry their own
+ * deduplication (e.g. an idempotency key) and can therefore be replayed.
+ */
+export function shouldRetry(
+  policy: ResolvedRetryPolicy,
+  method: HttpMethod,
+  failure: RetryFailure,
+  replaySafe = false
+): boolean {
+  const idempotent = replaySafe || isIdempotentMethod(method);
+
+  // A timed-out request may still have been processed
+  if (failure.kind === 'timeout') {
+    return idempotent;
+  }
+
+  if (failure.kind === 'network') {
+    if (isAbortError(failure.error)) return false;
+    return idempotent || isPreConnectError(failure.error);
+  }
+
+  if (!policy.retryOnStatus.includes(failure.status)) return false;
+  if (failure.retryAfterMs !== null && failure.retryAfterMs > policy.maxRetryAfterMs) return false;
+  if (idempotent) return true;
+
+  // The server explicitly rejected the request without processing it
+  return (failure.status === 429 || failure.status === 503) && failure.retryAfterMs !== null;
+}
+
+/**
+ * Backoff delay for a retry attempt (0-based), with jitter applied.
+ * A server-provided Retry-After always wins over a shorter computed delay.
+ */
+export function computeRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  retryAfterMs: number | null = null,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+  let delay: number;
+  switch (policy.jitter) {
+    case 'full':
+      delay = random() * exponential;
+      break;
+    case 'equal':
+      delay = exponential / 2 + random() * (exponential / 2);
+      break;
+    default:
+      delay = exponential;
+  }
+
+  if (retryAfterMs !== null) {
+    delay = Math.max(delay, retryAfterMs);
+  }
+
+  return Math.round(delay);
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return null;
+}
+
+/**
+ * Wait between attempts; resolves early if the caller aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function isPreConnectError(error: unknown): boolean {
+  const code = (error as { cause?: { code?: string } })?.cause?.code
+    ?? (error as { code?: string })?.code;
+  return !!code && PRE_CONNECT_ERROR_CODES.includes(code);
+}
@@ -4,67 +4,76 @@
 // The agent runtime handles:
 // - Persistent authentication (JWT stored locally)
 // - Portable identity (install anywhere, authenticate once)
-// - Config file management
+// - Config file management (one config per named profile)
 // - Easy API access
 //
 // Usage:
 //   const runtime = new AgentRuntime();
 //   await runtime.init();
 //
-//   // First time: authenticate
-//   if (!runtime.isAuthenticated()) {
-//     await runtime.login('my-wallet-address');
+//   // First time: authenticate (signs with ~/.mcpsovereign/wallet.key,
+//   // MCPSOVEREIGN_PRIVATE_KEY/SEED/KEY_FILE, or options.signer)
+//   if (!await runtime.ensureAuthenticated()) {
+//     await runtime.login();
 //   }
 //
-//   // From now on, JWT is persisted - works anywhere you install
+//   // Optional: keep the token and wallet key encrypted at rest
+//   await runtime.enableVault('my passphrase');   // later: runtime.unlock(...)
+//
+//   // From now on, JWT is persisted - works anywhere you install, and is
+//   // refreshed with the same signer shortly before it expires
 //   const balance = await runtime.client.getBalance();
 // =============================================================================
 
 import { homedir } from 'os';
 import { join, dirname } from 'path';
 import SovereignClient, { type Agent, type SovereignConfig } from './index.js';
+import { KeySigner, loadDefaultSigner, defaultKeyFilePath, type WalletSigner } from './signers.js';
+import { selectedProfile, profileDir, listProfileNames, validateProfileName, DEFAULT_PROFILE } from './profiles.js';
+import { CredentialVault, encryptWithPassphrase, decryptWithPassphrase, type VaultSecrets } from './vault.js';
+import { defaultConfig, readConfig, writeConfig, type RuntimeConfig } from './config.js';
+import { getJwtExpiry } from './jwt.js';
 
 // =============================================================================
 // Types
 // =============================================================================
 
-export interface RuntimeConfig {
-  // API configuration
-  apiUrl: string;
+export type { RuntimeConfig } from './config.js';
 
-  // Authentication
+export interface ProfileSummary {
+  name: string;
+  active: boolean;
+  apiUrl: string;
   walletAddress: string | null;
-  authToken: string | null;
-  tokenExpiresAt: string | null;
-
-  // Agent info (cached)
-  agentId: string | null;
-  agentName: string | null;
-  trade: string | null;
-
-  // Local store path
-  storePath: string;
-
-  // Timestamps
-  lastLogin: string | null;
-  lastSync: string | null;
-
-  // Runtime flags
-  isPuppet?: boolean;  // Platform-controlled account
+  authenticated: boolean;
+  vault: boolean;
+  configPath: string;
 }
 
 export interface RuntimeOptions {
-  /** Custom config directory (default: ~/.mcpsovereign) */
+  /** Custom config directory (default: MCPSOVEREIGN_CONFIG_DIR, then ~/.mcpsovereign) */
   configDir?: string;
 
+  /** Profile to use (default: MCPSOVEREIGN_PROFILE, then 'default') */
+  profile?: string;
+
   /** Custom API URL */
   apiUrl?: string;
 
   /** Auto-initialize on construction */
   autoInit?: boolean;
 
-  /** Wallet signing function for authentication */
+  /** Wallet signing function for authentication (takes precedence over signer) */
   signMessage?: (message: string) => Promise<string>;
+
+  /** Wallet signer (default: discovered via loadDefaultSigner) */
+  signer?: WalletSigner;
+
+  /** Key file to build the signer from */
+  keyFile?: string;
+
+  /** Vault passphrase (default: MCPSOVEREIGN_PASSPHRASE) */
+  passphrase?: string;
 }
 
 // =============================================================================
@@ -73,7 +82,14 @@ export interface RuntimeOptions {
 
 export class AgentRuntime {
   private config: RuntimeConfig;
+  private configDir: string;
+  private profile: string;
   private configPath: string;
+  private signer: WalletSigner | null = null;
+  private signerError: string | null = null;
+  private vaultError: string | null = null;  // Why the passphrase given at init didn't unlock the vault
+  private vault: CredentialVault | null = null;
+  private vaultedKey: string | null = null;
   private initialized = false;
   private fs: typeof import('fs') | null = null;
 
@@ -81,8 +97,9 @@ export class AgentRuntime {
   public client: SovereignClient;
 
   constructor(private options: RuntimeOptions = {}) {
-    const configDir = options.configDir || join(homedir(), '.mcpsovereign');
-    this.configPath = join(configDir, 'config.json');
+    this.configDir = options.configDir || process.env.MCPSOVEREIGN_CONFIG_DIR || join(homedir(), '.mcpsovereign');
+    this.profile = selectedProfile(options.profile);
+    this.configPath = join(profileDir(this.configDir, this.profile), 'config.json');
 
     // Default config
     this.config = this.getDefaultConfig();
@@ -91,24 +108,11 @@ export class AgentRuntime {
     }
 
     // Initialize client (will be configured after init)
-    this.client = new SovereignClient({
-      baseUrl: this.config.apiUrl,
-    });
+    this.client = this.createClient();
   }
 
-  private getDefaultConfig(): RuntimeConfig {
-    return {
-      apiUrl: process.env.MCPSOVEREIGN_API_URL || 'https://api.mcpsovereign.com/api/v1',
-      walletAddress: null,
-      authToken: null,
-      tokenExpiresAt: null,
-      agentId: null,
-      agentName: null,
-      trade: null,
-      storePath: './sovereign-store.json',
-      lastLogin: null,
-      lastSync: null,
-    };
+  private getDefaultConfig(profile: string = this.profile): RuntimeConfig {
+    return defaultConfig(profileDir(this.configDir, profile));
   }
 
   // ---------------------------------------------------------------------------
@@ -122,55 +126,56 @@ export class AgentRuntime {
   async init(): Promise<void> {
     if (this.initialized) return;
 
-    try {
-      this.fs = await import('fs');
+    this.fs = await import('fs');
 
-      // Ensure config directory exists
-      const configDir = dirname(this.configPath);
-      if (!this.fs.existsSync(configDir)) {
-        this.fs.mkdirSync(configDir, { recursive: true });
-      }
+    // Ensure config directory exists
+    const configDir = dirname(this.configPath);
+    if (!this.fs.existsSync(configDir)) {
+      this.fs.mkdirSync(configDir, { recursive: true });
+    }
 
-      // Load existing config if present
-      if (this.fs.existsSync(this.configPath)) {
-        const data = this.fs.readFileSync(this.configPath, 'utf-8');
-        const loaded = JSON.parse(data) as Partial<RuntimeConfig>;
-        this.config = { ...this.config, ...loaded };
-      }
+    // Load existing config if present (legacy files are upgraded in place)
+    const loaded = await readConfig(this.configPath);
+    if (loaded) {
+      this.config = loaded;
+    }
 
-      // Apply API URL from options/env
-      if (this.options.apiUrl) {
-        this.config.apiUrl = this.options.apiUrl;
-      }
+    // Apply API URL from options/env
+    if (this.options.apiUrl) {
+      this.config.apiUrl = this.options.apiUrl;
+    }
 
-      // Configure client with loaded token
-      this.client = new SovereignClient({
-        baseUrl: this.config.apiUrl,
-        authToken: this.config.authToken || undefined,
-        localStorePath: this.config.storePath,
-      });
+    // Unlock the vault if a passphrase is at hand; otherwise stay locked
+    const passphrase = this.options.passphrase ?? process.env.MCPSOVEREIGN_PASSPHRASE;
+    this.vaultError = null;
+    if (this.config.vault && passphrase) {
+      try {
+        this.openVault(passphrase);
+      } catch (error) {
+        this.vaultError = error instanceof Error ? error.message : String(error);
+      }
+    }
 
-      this.initialized = true;
-    } catch (error) {
-      console.error('Runtime init failed:', error);
-      throw error;
+    // Prefer the token's own exp claim over a stored (possibly guessed) expiry
+    if (this.config.authToken) {
+      const expiresAt = getJwtExpiry(this.config.authToken);
+      if (expiresAt) this.config.tokenExpiresAt = expiresAt.toISOString();
     }
+
+    // Configure client with loaded token
+    this.client = this.createClient();
+
+    await this.loadSigner();
+
+    this.initialized = true;
   }
 
   /**
    * Save current config to disk
    */
   async save(): Promise<void> {
-    if (!this.fs) {
-      this.fs = await import('fs');
-    }
-
-    const configDir = dirname(this.configPath);
-    if (!this.fs.existsSync(configDir)) {
-      this.fs.mkdirSync(configDir, { recursive: true });
-    }
-
-    this.fs.writeFileSync(this.configPath, JSON.stringify(this.config, null, 2));
+    const onDisk = this.config.vault ? this.sealedConfig() : this.config;
+    await writeConfig(this.configPath, onDisk);
   }
 
   // ---------------------------------------------------------------------------
@@ -194,6 +199,24 @@ export class AgentRuntime {
     return true;
   }
 
+  /**
+   * Like isAuthenticated(), but an expired token is first renewed with the
+   * stored wallet signer (or options.signMessage) when one is available
+   */
+  async ensureAuthenticated(): Promise<boolean> {
+    if (this.isAuthenticated()) return true;
+
+    await this.ensureInitialized();
+    return (await this.refreshToken()) !== null;
+  }
+
+  /**
+   * Token expiry, from the JWT `exp` claim (null if unknown)
+   */
+  getTokenExpiry(): Date | null {
+    return this.config.tokenExpiresAt ? new Date(this.config.tokenExpiresAt) : null;
+  }
+
   /**
    * Get the current agent info (from cache)
    */
@@ -209,10 +232,27 @@ export class AgentRuntime {
   }
 
   /**
-   * Authenticate with a wallet address
+   * Get the wallet signer used for login, if any
+   */
+  getSigner(): WalletSigner | null {
+    return this.signer;
+  }
+
+  /**
+   * Sign future logins with the key in this file
+   */
+  async useKeyFile(keyFile: string): Promise<WalletSigner> {
+    await this.ensureInitialized();
+    this.signer = await KeySigner.fromFile(keyFile);
+    this.signerError = null;
+    return this.signer;
+  }
+
+  /**
+   * Authenticate with a wallet address (default: the signer's address)
    * Persists the JWT token locally for future sessions
    */
-  async login(walletAddress: string): Promise<{
+  async login(walletAddress?: string): Promise<{
     success: boolean;
     agent?: Agent;
     isNew?: boolean;
@@ -220,8 +260,35 @@ export class AgentRuntime {
   }> {
     await this.ensureInitialized();
 
+    if (this.isLocked()) {
+      const reason = this.vaultError ? ` (the configured passphrase failed: ${this.vaultError})` : '';
+      return { success: false, error: `Credential vault is locked${reason}. Unlock it with your passphrase first` };
+    }
+
+    const signer = this.options.signMessage ?? this.signer;
+    const address = walletAddress || (this.options.signMessage ? undefined : this.signer?.address);
+
+    if (this.signerError && !signer) {
+      return { success: false, error: `Could not load wallet key: ${this.signerError}` };
+    }
+    if (!address) {
+      return { success: false, error: 'No wallet address given and no wallet signer configured' };
+    }
+    if (!signer) {
+      return {
+        success: false,
+        error: 'No wallet signer configured. Provide a key file (~/.mcpsovereign/wallet.key or MCPSOVEREIGN_KEY_FILE) or a signMessage function',
+      };
+    }
+    if (!this.options.signMessage && this.signer && this.signer.address !== address) {
+      return {
+        success: false,
+        error: `Wallet address ${address} does not match the signing key (${this.signer.address})`,
+      };
+    }
+
     try {
-      const result = await this.client.authenticate(walletAddress, this.options.signMessage);
+      const result = await this.client.authenticate(address, signer);
 
       if (!result.success || !result.data) {
         return {
@@ -233,18 +300,13 @@ export class AgentRuntime {
       const { token, agent, is_new_agent } = result.data;
 
       // Store credentials
-      this.config.walletAddress = walletAddress;
-      this.config.authToken = token;
+      this.config.walletAddress = address;
+      this.storeToken(token);
       this.config.agentId = agent.id;
       this.config.agentName = agent.display_name;
       this.config.trade = agent.trade;
       this.config.lastLogin = new Date().toISOString();
 
-      // Calculate token expiry (7 days from now - matches server)
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
-      this.config.tokenExpiresAt = expiresAt.toISOString();
-
       // Update client with new token
       this.client.setToken(token);
 
@@ -274,6 +336,7 @@ export class AgentRuntime {
     fromEnv?: boolean;
   } = {}): Promise<boolean> {
     await this.ensureInitialized();
+    if (this.isLocked()) return false;
 
     // Check environment variables
     if (options.fromEnv) {
@@ -281,7 +344,7 @@ export class AgentRuntime {
       const envWallet = process.env.MCPSOVEREIGN_WALLET;
 
       if (envToken) {
-        this.config.authToken = envToken;
+        this.storeToken(envToken);
         this.client.setToken(envToken);
       }
       if (envWallet) {
@@ -291,7 +354,7 @@ export class AgentRuntime {
 
     // Direct credentials
     if (options.token) {
-      this.config.authToken = options.token;
+      this.storeToken(options.token);
       this.client.setToken(options.token);
     }
     if (options.walletAddress) {
@@ -325,10 +388,7 @@ export class AgentRuntime {
     this.config.agentName = null;
     this.config.trade = null;
 
-    this.client = new SovereignClient({
-      baseUrl: this.config.apiUrl,
-      localStorePath: this.config.storePath,
-    });
+    this.client.setToken(null);
 
     await this.save();
   }
@@ -344,6 +404,24 @@ export class AgentRuntime {
     return this.configPath;
   }
 
+  /**
+   * Snapshot of the active profile's config
+   */
+  getConfig(): Readonly<RuntimeConfig> {
+    return { ...this.config };
+  }
+
+  /**
+   * Record setup/onboarding progress (and the wallet address chosen during
+   * setup) in the active profile's config
+   */
+  async updateConfig(changes: Partial<Pick<RuntimeConfig,
+    'walletAddress' | 'setupComplete' | 'onboardingComplete' | 'starterPackClaimed'>>): Promise<void> {
+    await this.ensureInitialized();
+    Object.assign(this.config, changes);
+    await this.save();
+  }
+
   /**
    * Get the current API URL
    */
@@ -360,20 +438,230 @@ export class AgentRuntime {
     this.config.apiUrl = url;
 
     // Recreate client with new URL
-    this.client = new SovereignClient({
-      baseUrl: url,
-      authToken: this.config.authToken || undefined,
-      localStorePath: this.config.storePath,
-    });
+    await this.replaceClient();
+
+    await this.save();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Profiles
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Name of the active profile
+   */
+  getProfile(): string {
+    return this.profile;
+  }
+
+  /**
+   * All profiles in the config directory
+   */
+  async listProfiles(): Promise<ProfileSummary[]> {
+    await this.ensureInitialized();
+
+    const summaries: ProfileSummary[] = [];
+    for (const name of await listProfileNames(this.configDir)) {
+      const configPath = join(profileDir(this.configDir, name), 'config.json');
+      const config = name === this.profile
+        ? this.config
+        : await readConfig(configPath) ?? this.getDefaultConfig(name);
+
+      summaries.push({
+        name,
+        active: name === this.profile,
+        apiUrl: config.apiUrl,
+        walletAddress: config.walletAddress,
+        authenticated: !!config.authToken
+          && (!config.tokenExpiresAt || new Date(config.tokenExpiresAt) > new Date()),
+        vault: !!config.vault,
+        configPath,
+      });
+    }
+    return summaries;
+  }
+
+  /**
+   * Create an empty profile (does not switch to it)
+   */
+  async createProfile(name: string, settings: { apiUrl?: string; storePath?: string } = {}): Promise<void> {
+    await this.ensureInitialized();
+    validateProfileName(name);
+
+    const configPath = join(profileDir(this.configDir, name), 'config.json');
+    if (this.fs!.existsSync(configPath)) {
+      throw new Error(`Profile '${name}' already exists`);
+    }
+
+    await writeConfig(configPath, { ...this.getDefaultConfig(name), ...settings });
+  }
+
+  /**
+   * Point the runtime (and its client) at another profile.
+   * Constructor options such as keyFile, signer and apiUrl still apply.
+   */
+  async switchProfile(name: string, options: { create?: boolean } = {}): Promise<void> {
+    await this.ensureInitialized();
+    validateProfileName(name);
+    if (name === this.profile) return;
+
+    const configPath = join(profileDir(this.configDir, name), 'config.json');
+    if (!this.fs!.existsSync(configPath)) {
+      if (!options.create) {
+        throw new Error(`Profile '${name}' does not exist`);
+      }
+      await this.createProfile(name);
+    }
+
+    this.profile = name;
+    this.configPath = configPath;
+    this.config = this.getDefaultConfig();
+    this.signer = null;
+    this.signerError = null;
+    this.vault = null;
+    this.vaultedKey = null;
+    this.initialized = false;
+
+    await this.init();
+    await this.client.localStore.load();
+  }
+
+  /**
+   * Delete a profile's directory. A profile holding a wallet key is only
+   * deleted with { force: true }, since the key cannot be recovered.
+   */
+  async deleteProfile(name: string, options: { force?: boolean } = {}): Promise<void> {
+    await this.ensureInitialized();
+    validateProfileName(name);
+
+    if (name === DEFAULT_PROFILE) {
+      throw new Error('The default profile cannot be deleted');
+    }
+    if (name === this.profile) {
+      throw new Error(`Profile '${name}' is active; switch to another profile first`);
+    }
+
+    const dir = profileDir(this.configDir, name);
+    if (!this.fs!.existsSync(join(dir, 'config.json'))) {
+      throw new Error(`Profile '${name}' does not exist`);
+    }
+
+    const config = await readConfig(join(dir, 'config.json'));
+    const holdsKey = this.fs!.existsSync(defaultKeyFilePath(dir)) || !!config?.vault;
+    if (holdsKey && !options.force) {
+      throw new Error(`Profile '${name}' holds a wallet key; pass { force: true } to delete it anyway`);
+    }
+
+    this.fs!.rmSync(dir, { recursive: true, force: true });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Credential Vault
+  // ---------------------------------------------------------------------------
+
+  isVaultEnabled(): boolean {
+    return !!this.config.vault;
+  }
+
+  /**
+   * True while the vault is enabled but its passphrase hasn't been given
+   */
+  isLocked(): boolean {
+    return !!this.config.vault && !this.vault;
+  }
+
+  /**
+   * Encrypt the token, wallet address and wallet key under a passphrase.
+   * The key file (default: wallet.key in the config dir) moves into the
+   * vault. The default key file is then deleted; a caller-supplied keyFile
+   * is only deleted with deleteKeyFile.
+   */
+  async enableVault(passphrase: string, options: { keyFile?: string; deleteKeyFile?: boolean } = {}): Promise<void> {
+    await this.ensureInitialized();
+    if (this.config.vault) {
+      throw new Error('Credential vault is already enabled');
+    }
+
+    const fs = this.fs!;
+    const keyFile = options.keyFile ?? defaultKeyFilePath(dirname(this.configPath));
+    if (options.keyFile || fs.existsSync(keyFile)) {
+      this.vaultedKey = fs.readFileSync(keyFile, 'utf-8');
+    }
+
+    this.vault = CredentialVault.create(passphrase);
+    this.config.vault = this.vault.seal(this.vaultSecrets());
+    await this.save();
+
+    if (this.vaultedKey !== null && (!options.keyFile || options.deleteKeyFile)) {
+      fs.unlinkSync(keyFile);
+    }
+  }
+
+  /**
+   * Decrypt the vault. Returns false on a wrong passphrase.
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    await this.ensureInitialized();
+    if (!this.config.vault) return true;
+
+    try {
+      this.openVault(passphrase);
+    } catch {
+      return false;
+    }
+
+    this.vaultError = null;
+    await this.loadSigner();
+    this.client.setToken(this.config.authToken);
+    return true;
+  }
+
+  /**
+   * Forget the decrypted secrets (the vault on disk is untouched)
+   */
+  async lock(): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.config.vault) return;
+
+    this.vault = null;
+    this.vaultedKey = null;
+    this.config.authToken = null;
+    this.config.walletAddress = null;
+
+    await this.loadSigner();
+    this.client.setToken(null);
+  }
+
+  /**
+   * Go back to plaintext storage; the wallet key is written back to wallet.key
+   */
+  async disableVault(): Promise<void> {
+    await this.ensureInitialized();
+    if (!this.config.vault) return;
+    if (!this.vault) {
+      throw new Error('Credential vault is locked');
+    }
 
+    if (this.vaultedKey !== null) {
+      const keyFile = defaultKeyFilePath(dirname(this.configPath));
+      if (this.fs!.existsSync(keyFile)) {
+        throw new Error(`Cannot restore wallet key: ${keyFile} already exists`);
+      }
+      this.fs!.writeFileSync(keyFile, this.vaultedKey, { mode: 0o600 });
+    }
+
+    this.vault = null;
+    this.vaultedKey = null;
+    this.config.vault = null;
     await this.save();
   }
 
   /**
    * Export credentials for portability
-   * Returns a string that can be used to restore credentials elsewhere
+   * Returns a string that can be used to restore credentials elsewhere.
+   * With a passphrase the export is encrypted (scrypt + AES-GCM).
    */
-  exportCredentials(): string {
+  exportCredentials(passphrase?: string): string {
     if (!this.config.authToken || !this.config.walletAddress) {
       throw new Error('No credentials to export');
     }
@@ -387,36 +675,48 @@ export class AgentRuntime {
       exportedAt: new Date().toISOString(),
     };
 
+    const payload = passphrase
+      ? { version: '2.0', encrypted: encryptWithPassphrase(exportData, passphrase) }
+      : exportData;
+
     // Base64 encode for easy transport
-    return Buffer.from(JSON.stringify(exportData)).toString('base64');
+    return Buffer.from(JSON.stringify(payload)).toString('base64');
   }
 
   /**
-   * Import credentials from an export string
+   * Import credentials from an export string (encrypted exports need the passphrase)
    */
-  async importCredentials(exportString: string): Promise<boolean> {
+  async importCredentials(exportString: string, passphrase?: string): Promise<boolean> {
     await this.ensureInitialized();
 
     try {
-      const data = JSON.parse(Buffer.from(exportString, 'base64').toString('utf-8'));
+      if (this.isLocked()) {
+        throw new Error('Credential vault is locked');
+      }
+
+      let data = JSON.parse(Buffer.from(exportString, 'base64').toString('utf-8'));
+
+      if (data.version === '2.0') {
+        if (!passphrase) {
+          throw new Error('This export is encrypted - a passphrase is required');
+        }
+        data = decryptWithPassphrase(data.encrypted, passphrase);
+      }
 
       if (data.version !== '1.0') {
         throw new Error('Unsupported export version');
       }
 
       this.config.walletAddress = data.wallet;
-      this.config.authToken = data.token;
+      this.storeToken(data.token);
       this.config.agentId = data.agentId;
-      if (data.apiUrl) {
+      if (data.apiUrl && data.apiUrl !== this.config.apiUrl) {
         this.config.apiUrl = data.apiUrl;
+        await this.replaceClient();
+      } else {
+        this.client.setToken(this.config.authToken);
       }
 
-      this.client = new SovereignClient({
-        baseUrl: this.config.apiUrl,
-        authToken: this.config.authToken || undefined,
-        localStorePath: this.config.storePath,
-      });
-
       // Verify the token works
       const result = await this.client.getAgentInfo();
       if (result.success && result.data) {
@@ -442,6 +742,7 @@ export class AgentRuntime {
    */
   async status(): Promise<{
     initialized: boolean;
+    profile: string;
     authenticated: boolean;
     agent: { id: string; name: string | null; trade: string | null; wallet: string } | null;
     apiUrl: string;
@@ -450,6 +751,8 @@ export class AgentRuntime {
     lastSync: string | null;
     tokenValid: boolean;
     isPuppet: boolean;
+    signer: { address: string; scheme: string } | null;
+    vault: 'disabled' | 'locked' | 'unlocked';
   }> {
     await this.ensureInitialized();
 
@@ -461,6 +764,7 @@ export class AgentRuntime {
 
     return {
       initialized: this.initialized,
+      profile: this.profile,
       authenticated: this.isAuthenticated(),
       agent: this.getAgent(),
       apiUrl: this.config.apiUrl,
@@ -469,6 +773,8 @@ export class AgentRuntime {
       lastSync: this.config.lastSync,
       tokenValid,
       isPuppet: this.config.isPuppet || false,
+      signer: this.signer ? { address: this.signer.address, scheme: this.signer.scheme } : null,
+      vault: !this.config.vault ? 'disabled' : this.vault ? 'unlocked' : 'locked',
     };
   }
 
@@ -509,11 +815,18 @@ export class AgentRuntime {
   }
 
   /**
-   * Purchase a product
+   * Purchase a product and add it to the local library
    */
   async purchase(productId: string) {
     await this.ensureInitialized();
-    return this.client.purchaseProduct(productId);
+    const result = await this.client.purchaseProduct(productId);
+
+    if (result.success) {
+      // The purchase has gone through; a library refresh failure can wait for the next sync
+      await this.client.syncLibrary().catch(() => undefined);
+    }
+
+    return result;
   }
 
   /**
@@ -536,6 +849,97 @@ export class AgentRuntime {
   // Helpers
   // ---------------------------------------------------------------------------
 
+  // A new client for a changed API URL, with the local store loaded like the old one's
+  private async replaceClient(): Promise<void> {
+    this.client = this.createClient();
+    await this.client.localStore.load();
+  }
+
+  private createClient(): SovereignClient {
+    return new SovereignClient({
+      baseUrl: this.config.apiUrl,
+      authToken: this.config.authToken || undefined,
+      localStorePath: this.config.storePath,
+      refreshAuth: () => this.refreshToken(),
+      manifestSigner: () => this.signer,
+    });
+  }
+
+  /**
+   * Pick up a wallet key unless the caller brings their own signing.
+   * A broken key shouldn't stop the runtime; login() reports it instead.
+   */
+  private async loadSigner(): Promise<void> {
+    if (this.options.signMessage) return;
+
+    this.signer = null;
+    this.signerError = null;
+    try {
+      if (this.options.signer) {
+        this.signer = this.options.signer;
+      } else if (this.options.keyFile) {
+        this.signer = await KeySigner.fromFile(this.options.keyFile);
+      } else if (this.vaultedKey) {
+        this.signer = KeySigner.parse(this.vaultedKey);
+      } else {
+        this.signer = await loadDefaultSigner(dirname(this.configPath));
+      }
+    } catch (error) {
+      this.signerError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private openVault(passphrase: string): void {
+    const { vault, secrets } = CredentialVault.unlock<VaultSecrets>(passphrase, this.config.vault!);
+    this.vault = vault;
+    this.config.authToken = secrets.authToken;
+    this.config.walletAddress = secrets.walletAddress;
+    this.vaultedKey = secrets.signingKey ?? null;
+  }
+
+  private vaultSecrets(): VaultSecrets {
+    return {
+      authToken: this.config.authToken,
+      walletAddress: this.config.walletAddress,
+      signingKey: this.vaultedKey,
+    };
+  }
+
+  /**
+   * Config as written to disk with the vault on: secrets only inside the
+   * (re-sealed, when unlocked) vault blob
+   */
+  private sealedConfig(): RuntimeConfig {
+    if (this.vault) {
+      this.config.vault = this.vault.seal(this.vaultSecrets());
+    }
+    return { ...this.config, authToken: null, walletAddress: null };
+  }
+
+  private storeToken(token: string): void {
+    this.config.authToken = token;
+    this.config.tokenExpiresAt = getJwtExpiry(token)?.toISOString() ?? null;
+  }
+
+  /**
+   * Client refresh hook: sign a new challenge with the stored wallet.
+   * Returns null when logged out or when there is nothing to sign with.
+   */
+  private async refreshToken(): Promise<string | null> {
+    const signer = this.options.signMessage ?? this.signer;
+    const wallet = this.config.walletAddress;
+    if (!this.config.authToken || !wallet || !signer) return null;
+    if (!this.options.signMessage && this.signer?.address !== wallet) return null;
+
+    const result = await this.client.authenticate(wallet, signer);
+    if (!result.success || !result.data) return null;
+
+    this.storeToken(result.data.token);
+    this.config.lastLogin = new Date().toISOString();
+    await this.save();
+    return result.data.token;
+  }
+
   private async ensureInitialized(): Promise<void> {
     if (!this.initialized) {
       await this.init();
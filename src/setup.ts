@@ -16,6 +16,10 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 import { SovereignClient } from './index.js';
+import { createRuntime } from './runtime.js';
+import { readConfig } from './config.js';
+import { KeySigner, defaultKeyFilePath } from './signers.js';
+import { selectedProfile, profileDir, DEFAULT_PROFILE, PROFILE_ENV_VAR } from './profiles.js';
 import { OnboardingWizard } from './onboarding/wizard.js';
 import { AgentHelperMCP, HELPER_TOOLS } from './mcp-helper/index.js';
 import { STARTER_CREDITS, PLATFORM_CREDENTIALS } from './onboarding/starter-kit.js';
@@ -25,29 +29,13 @@ import { STARTER_CREDITS, PLATFORM_CREDENTIALS } from './onboarding/starter-kit.
 // ============================================================
 
 const HOME_DIR = process.env.HOME || process.env.USERPROFILE || '.';
-const CONFIG_DIR = path.join(HOME_DIR, '.mcpsovereign');
+const CONFIG_ROOT = process.env.MCPSOVEREIGN_CONFIG_DIR || path.join(HOME_DIR, '.mcpsovereign');
+const PROFILE = selectedProfile();  // MCPSOVEREIGN_PROFILE
+const CONFIG_DIR = profileDir(CONFIG_ROOT, PROFILE);
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
-const STORE_FILE = path.join(CONFIG_DIR, 'store.json');
 const MCP_CONFIG_FILE = path.join(HOME_DIR, '.mcp.json');
 const CLAUDE_MCP_FILE = path.join(HOME_DIR, '.claude', 'mcp.json');
 
-// ============================================================
-// CONFIG TYPES
-// ============================================================
-
-interface SovereignConfig {
-  version: string;
-  api_url: string;
-  wallet_address: string | null;
-  auth_token: string | null;
-  agent_id: string | null;
-  setup_complete: boolean;
-  onboarding_complete: boolean;
-  starter_pack_claimed: boolean;
-  created_at: string;
-  last_sync: string | null;
-}
-
 // ============================================================
 // ASCII ART
 // ============================================================
@@ -113,36 +101,6 @@ function ensureConfigDir(): void {
   }
 }
 
-function loadConfig(): SovereignConfig | null {
-  if (fs.existsSync(CONFIG_FILE)) {
-    try {
-      return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf-8'));
-    } catch {
-      return null;
-    }
-  }
-  return null;
-}
-
-function saveConfig(config: SovereignConfig): void {
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2));
-}
-
-function createDefaultConfig(): SovereignConfig {
-  return {
-    version: '1.0.0',
-    api_url: process.env.MCPSOVEREIGN_API_URL || 'https://api.mcpsovereign.com/api/v1',
-    wallet_address: null,
-    auth_token: null,
-    agent_id: null,
-    setup_complete: false,
-    onboarding_complete: false,
-    starter_pack_claimed: false,
-    created_at: new Date().toISOString(),
-    last_sync: null
-  };
-}
-
 // ============================================================
 // MCP CONFIGURATION
 // ============================================================
@@ -150,13 +108,21 @@ function createDefaultConfig(): SovereignConfig {
 function generateMCPConfig(): object {
   const mcpServerPath = path.join(__dirname, 'mcp-server.js');
 
+  const env: Record<string, string> = {
+    "MCPSOVEREIGN_CONFIG_DIR": CONFIG_ROOT
+  };
+  if (PROFILE !== DEFAULT_PROFILE) {
+    env[PROFILE_ENV_VAR] = PROFILE;
+  }
+
+  // One MCP server entry per profile, so several agents can be configured
+  const serverName = PROFILE === DEFAULT_PROFILE ? 'mcpsovereign' : `mcpsovereign-${PROFILE}`;
+
   return {
-    "mcpsovereign": {
+    [serverName]: {
       "command": "node",
       "args": [mcpServerPath],
-      "env": {
-        "MCPSOVEREIGN_CONFIG_DIR": CONFIG_DIR
-      }
+      "env": env
     }
   };
 }
@@ -204,22 +170,16 @@ function updateMCPConfig(): boolean {
 // SERVER CONNECTION
 // ============================================================
 
-async function connectToServer(config: SovereignConfig): Promise<{ client: SovereignClient; connected: boolean }> {
-  const client = new SovereignClient({
-    baseUrl: config.api_url,
-    authToken: config.auth_token || undefined,
-    localStorePath: STORE_FILE
-  });
-
+async function connectToServer(client: SovereignClient): Promise<boolean> {
   // Load local store
   await client.localStore.load();
 
   // Test connection
   try {
     const health = await client.health();
-    return { client, connected: health.success };
+    return health.success;
   } catch {
-    return { client, connected: false };
+    return false;
   }
 }
 
@@ -265,20 +225,21 @@ async function runSetup(): Promise<void> {
   // Step 1: Ensure config directory
   ensureConfigDir();
 
-  // Step 2: Load or create config
-  let config = loadConfig();
-  const isFirstRun = !config;
+  // Step 2: Load or create config (shared with the runtime and MCP server)
+  const isFirstRun = !fs.existsSync(CONFIG_FILE);
+  const runtime = await createRuntime({ configDir: CONFIG_ROOT, profile: PROFILE });
 
-  if (!config) {
-    config = createDefaultConfig();
-    saveConfig(config);
+  if (isFirstRun) {
+    await runtime.save();
     console.log('📝 Created new configuration');
   }
+  const config = runtime.getConfig();
 
   // Step 3: Connect to server
   await showLoadingBar('🌐 Connecting to server', 1500);
 
-  const { client, connected } = await connectToServer(config);
+  const client = runtime.client;
+  const connected = await connectToServer(client);
 
   if (connected) {
     console.log(SUCCESS_BANNER);
@@ -288,34 +249,43 @@ async function runSetup(): Promise<void> {
   }
 
   // Step 4: First-time setup
-  if (isFirstRun || !config.setup_complete) {
+  if (isFirstRun || !config.setupComplete) {
     console.log('\n🎮 First time setup detected!\n');
 
     // Ask for wallet address
     const walletInput = await question(rl, '🔑 Enter your wallet address (or press Enter for demo mode): ');
-    config.wallet_address = walletInput || `demo-agent-${Date.now()}`;
+    const keyFile = defaultKeyFilePath(CONFIG_DIR);
+
+    // Demo mode gets a fresh local wallet key so the challenge can be signed
+    if (!walletInput && !runtime.getSigner()) {
+      await KeySigner.createKeyFile(keyFile);
+      await runtime.useKeyFile(keyFile);
+    }
+    const walletAddress = walletInput || runtime.getSigner()!.address;
+    const canSign = runtime.getSigner()?.address === walletAddress;
+
+    if (connected && !canSign) {
+      console.log(`\n⚠️  No signing key found for ${walletAddress}.`);
+      console.log(`   Save your wallet key to ${keyFile}, then use sovereign_login.\n`);
+    }
 
     // Try to authenticate
-    if (connected) {
+    if (connected && canSign) {
       await showLoadingBar('🔐 Authenticating', 1000);
 
-      const authResult = await client.authenticate(config.wallet_address);
+      const authResult = await runtime.login(walletAddress);
 
-      if (authResult.success && authResult.data) {
-        config.auth_token = authResult.data.token;
-        config.agent_id = authResult.data.agent.id;
+      if (authResult.success && authResult.agent) {
+        console.log(`✅ Authenticated as: ${authResult.agent.id}`);
+        console.log(`💰 Your balance: ${authResult.agent.credit_balance} credits`);
 
-        console.log(`✅ Authenticated as: ${config.agent_id}`);
-        console.log(`💰 Your balance: ${authResult.data.agent.credit_balance} credits`);
-
-        if (authResult.data.is_new_agent) {
+        if (authResult.isNew) {
           console.log(`🎁 Welcome bonus: +${STARTER_CREDITS.amount} credits!`);
         }
       }
     }
 
-    config.setup_complete = true;
-    saveConfig(config);
+    await runtime.updateConfig({ walletAddress, setupComplete: true });
   }
 
   // Step 5: Update MCP config
@@ -323,7 +293,7 @@ async function runSetup(): Promise<void> {
   updateMCPConfig();
 
   // Step 6: Run onboarding wizard if not complete
-  if (!config.onboarding_complete) {
+  if (!config.onboardingComplete) {
     console.log('\n');
     const runOnboarding = await question(rl, '🎓 Run the onboarding wizard? (Y/n): ');
 
@@ -339,9 +309,7 @@ async function runSetup(): Promise<void> {
 
       const progress = await wizard.run();
 
-      config.onboarding_complete = progress.completed;
-
-      saveConfig(config);
+      await runtime.updateConfig({ onboardingComplete: progress.completed });
     }
   }
 
@@ -369,6 +337,9 @@ async function runSetup(): Promise<void> {
   console.log('  await client.onboard();  // Interactive setup');
   console.log('');
   console.log('Config Location: ' + CONFIG_DIR);
+  if (PROFILE !== DEFAULT_PROFILE) {
+    console.log('Profile: ' + PROFILE);
+  }
   console.log('');
 
   rl.close();
@@ -379,7 +350,7 @@ async function runSetup(): Promise<void> {
 // ============================================================
 
 async function showStatus(): Promise<void> {
-  const config = loadConfig();
+  const config = await readConfig(CONFIG_FILE);
 
   if (!config) {
     console.log('❌ Not set up yet. Run: npx @mcpsovereign/sdk setup');
@@ -388,13 +359,15 @@ async function showStatus(): Promise<void> {
 
   console.log('\n📊 mcpSovereign Status');
   console.log('═'.repeat(50));
-  console.log(`Server: ${config.api_url}`);
-  console.log(`Wallet: ${config.wallet_address || 'Not set'}`);
-  console.log(`Agent ID: ${config.agent_id || 'Not authenticated'}`);
-  console.log(`Setup Complete: ${config.setup_complete ? '✅' : '❌'}`);
-  console.log(`Onboarding Complete: ${config.onboarding_complete ? '✅' : '❌'}`);
-  console.log(`Starter Pack: ${config.starter_pack_claimed ? '✅ Claimed' : '🎁 Available'}`);
-  console.log(`Last Sync: ${config.last_sync || 'Never'}`);
+  console.log(`Profile: ${PROFILE}`);
+  console.log(`Server: ${config.apiUrl}`);
+  console.log(`Wallet: ${config.vault ? '🔒 Encrypted' : config.walletAddress || 'Not set'}`);
+  console.log(`Agent ID: ${config.agentId || 'Not authenticated'}`);
+  console.log(`Store: ${config.storePath}`);
+  console.log(`Setup Complete: ${config.setupComplete ? '✅' : '❌'}`);
+  console.log(`Onboarding Complete: ${config.onboardingComplete ? '✅' : '❌'}`);
+  console.log(`Starter Pack: ${config.starterPackClaimed ? '✅ Claimed' : '🎁 Available'}`);
+  console.log(`Last Sync: ${config.lastSync || 'Never'}`);
   console.log('');
 }
 
@@ -411,17 +384,29 @@ Commands:
   reset     Reset configuration and start fresh
   help      Show this help message
 
+Set ${PROFILE_ENV_VAR}=<name> to work with a named profile
+(e.g. staging, seller-1, buyer-bot). Each profile has its own
+wallet, token, API URL and store.
+
 After setup, use the sovereign_* MCP tools in Claude!
 `);
 }
 
 async function resetConfig(): Promise<void> {
-  if (fs.existsSync(CONFIG_DIR)) {
-    fs.rmSync(CONFIG_DIR, { recursive: true });
-    console.log('✅ Configuration reset. Run setup to start fresh.');
-  } else {
+  if (!fs.existsSync(CONFIG_DIR)) {
     console.log('Nothing to reset.');
+    return;
+  }
+
+  // The default profile shares its directory with the named profiles
+  for (const entry of fs.readdirSync(CONFIG_DIR)) {
+    if (PROFILE === DEFAULT_PROFILE && entry === 'profiles') continue;
+    fs.rmSync(path.join(CONFIG_DIR, entry), { recursive: true });
+  }
+  if (PROFILE !== DEFAULT_PROFILE) {
+    fs.rmSync(CONFIG_DIR, { recursive: true });
   }
+  console.log(`✅ Configuration for profile '${PROFILE}' reset. Run setup to start fresh.`);
 }
 
 // ============================================================
@@ -0,0 +1,592 @@
+// =============================================================================
+// mcpSovereign SDK - Wallet Message Signers
+// =============================================================================
+// Built-in signers for the /auth/challenge message, backed by a local
+// secp256k1 key (hex or WIF) or a BIP-32 seed. Three schemes are supported:
+//
+//   'bip322'  BIP-322 "simple" signature for P2WPKH (bc1q) or P2TR (bc1p)
+//   'ecdsa'   Classic Bitcoin signed message (BIP-137 compact, base64)
+//   'schnorr' BIP-340 signature over the signed-message hash, for P2TR
+//
+//   const signer = KeySigner.fromFile('~/.mcpsovereign/wallet.key');
+//   await client.authenticate(signer.address, signer);
+//
+// Key files hold either a bare WIF/hex private key, or JSON:
+//   { "privateKey": "...", "scheme": "bip322", "addressType": "p2wpkh" }
+//   { "seed": "<hex>", "path": "m/84'/0'/0'/0/0" }
+
+import { secp256k1, schnorr } from '@noble/curves/secp256k1';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import { ripemd160 } from '@noble/hashes/legacy';
+import { hmac } from '@noble/hashes/hmac';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { base58check, base64, bech32, bech32m } from '@scure/base';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SignatureScheme = 'bip322' | 'ecdsa' | 'schnorr';
+export type AddressType = 'p2pkh' | 'p2wpkh' | 'p2tr';
+export type BitcoinNetwork = 'mainnet' | 'testnet';
+
+/** Anything that can answer an auth challenge */
+export type MessageSigner = (message: string) => Promise<string>;
+
+export interface WalletSigner {
+  readonly address: string;
+  readonly scheme: SignatureScheme;
+  /** Compressed public key (hex) */
+  readonly publicKey: string;
+  signMessage(message: string): Promise<string>;
+}
+
+export interface SignerOptions {
+  /** Private key as 64 hex chars or compressed WIF */
+  privateKey?: string;
+
+  /** BIP-32 seed (hex), used with `path` when no privateKey is given */
+  seed?: string;
+
+  /** Derivation path (default: BIP-44/84/86 first receive address for the address type) */
+  path?: string;
+
+  /** Signing scheme (default: 'bip322') */
+  scheme?: SignatureScheme;
+
+  /** Address type (default: p2wpkh, p2tr for schnorr, p2pkh for ecdsa) */
+  addressType?: AddressType;
+
+  /** Network (default: mainnet, or the WIF's network) */
+  network?: BitcoinNetwork;
+}
+
+const NETWORKS = {
+  mainnet: { bech32: 'bc', pubKeyHash: 0x00, wif: 0x80, coinType: 0 },
+  testnet: { bech32: 'tb', pubKeyHash: 0x6f, wif: 0xef, coinType: 1 }
+} as const;
+
+const DEFAULT_ADDRESS_TYPE: Record<SignatureScheme, AddressType> = {
+  bip322: 'p2wpkh',
+  ecdsa: 'p2pkh',
+  schnorr: 'p2tr'
+};
+
+const SUPPORTED_ADDRESS_TYPES: Record<SignatureScheme, AddressType[]> = {
+  bip322: ['p2wpkh', 'p2tr'],
+  ecdsa: ['p2pkh', 'p2wpkh'],
+  schnorr: ['p2tr']
+};
+
+const PURPOSE: Record<AddressType, number> = { p2pkh: 44, p2wpkh: 84, p2tr: 86 };
+
+const CURVE_ORDER = secp256k1.CURVE.n;
+const b58check = base58check(sha256);
+
+// BIP-341 sighash types a 65-byte schnorr signature may carry
+const SIGHASH_NONE = 0x02;
+const SIGHASH_SINGLE = 0x03;
+const SIGHASH_ANYONECANPAY = 0x80;
+const TAPROOT_HASH_TYPES = [0x01, 0x02, 0x03, 0x81, 0x82, 0x83];
+
+// =============================================================================
+// Key Signer
+// =============================================================================
+
+export class KeySigner implements WalletSigner {
+  readonly address: string;
+  readonly scheme: SignatureScheme;
+  readonly addressType: AddressType;
+  readonly network: BitcoinNetwork;
+  readonly publicKey: string;
+  private privateKey: Uint8Array;
+
+  constructor(options: SignerOptions) {
+    const scheme = options.scheme ?? 'bip322';
+    const addressType = options.addressType ?? DEFAULT_ADDRESS_TYPE[scheme];
+    if (!SUPPORTED_ADDRESS_TYPES[scheme].includes(addressType)) {
+      throw new Error(`Signature scheme '${scheme}' does not support ${addressType} addresses`);
+    }
+
+    let network = options.network;
+    let privateKey: Uint8Array;
+
+    if (options.privateKey) {
+      const parsed = parsePrivateKey(options.privateKey.trim());
+      privateKey = parsed.key;
+      if (network && parsed.network && network !== parsed.network) {
+        throw new Error(`WIF key is for ${parsed.network}, but ${network} was requested`);
+      }
+      network = network ?? parsed.network;
+    } else if (options.seed) {
+      const path = options.path ?? defaultPath(addressType, network ?? 'mainnet');
+      privateKey = derivePrivateKey(hexToBytes(options.seed.trim()), path);
+    } else {
+      throw new Error('A privateKey or seed is required');
+    }
+
+    this.scheme = scheme;
+    this.addressType = addressType;
+    this.network = network ?? 'mainnet';
+    this.privateKey = privateKey;
+    this.publicKey = bytesToHex(secp256k1.getPublicKey(privateKey, true));
+    this.address = encodeAddress(addressType, privateKey, this.network);
+    this.signMessage = this.signMessage.bind(this);
+  }
+
+  /**
+   * Load a signer from a key file (bare WIF/hex key or JSON SignerOptions).
+   * Options passed here override the file's own settings.
+   */
+  static async fromFile(filePath: string, overrides: SignerOptions = {}): Promise<KeySigner> {
+    const fs = await import('fs');
+    return KeySigner.parse(fs.readFileSync(expandHome(filePath), 'utf-8'), overrides);
+  }
+
+  /**
+   * Build a signer from key file contents
+   */
+  static parse(contents: string, overrides: SignerOptions = {}): KeySigner {
+    const raw = contents.trim();
+    const fromFile: SignerOptions = raw.startsWith('{')
+      ? JSON.parse(raw) as SignerOptions
+      : { privateKey: raw };
+
+    return new KeySigner({ ...fromFile, ...overrides });
+  }
+
+  /**
+   * Generate a fresh key and save it as a JSON key file (mode 0600)
+   */
+  static async createKeyFile(filePath: string, options: Omit<SignerOptions, 'privateKey' | 'seed'> = {}): Promise<KeySigner> {
+    const fs = await import('fs');
+    const target = expandHome(filePath);
+
+    if (fs.existsSync(target)) {
+      throw new Error(`Key file already exists: ${target}`);
+    }
+
+    const privateKey = bytesToHex(secp256k1.utils.randomPrivateKey());
+    const signer = new KeySigner({ ...options, privateKey });
+
+    fs.mkdirSync(dirname(target), { recursive: true });
+    fs.writeFileSync(target, JSON.stringify({
+      privateKey,
+      scheme: signer.scheme,
+      addressType: signer.addressType,
+      network: signer.network
+    }, null, 2), { mode: 0o600 });
+
+    return signer;
+  }
+
+  async signMessage(message: string): Promise<string> {
+    switch (this.scheme) {
+      case 'ecdsa':
+        return this.signEcdsa(message);
+      case 'schnorr':
+        return bytesToHex(schnorr.sign(bitcoinMessageHash(message), taprootTweakedKey(this.privateKey)));
+      case 'bip322':
+        return this.signBip322(message);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Schemes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * BIP-137 compact signature: header byte, then r and s
+   */
+  private signEcdsa(message: string): string {
+    const sig = secp256k1.sign(bitcoinMessageHash(message), this.privateKey, { lowS: true });
+    // 31-34: compressed P2PKH, 39-42: P2WPKH
+    const header = (this.addressType === 'p2wpkh' ? 39 : 31) + sig.recovery;
+    return base64.encode(concatBytes(new Uint8Array([header]), sig.toCompactRawBytes()));
+  }
+
+  /**
+   * BIP-322 "simple" signature: the witness stack of the virtual to_sign
+   * transaction, base64 encoded
+   */
+  private signBip322(message: string): string {
+    const pubKey = secp256k1.getPublicKey(this.privateKey, true);
+    const sighash = bip322Sighash(this.addressType, outputScript(this.addressType, this.privateKey), pubKey, message);
+
+    const witness = this.addressType === 'p2tr'
+      ? [schnorr.sign(sighash, taprootTweakedKey(this.privateKey))]
+      : [concatBytes(secp256k1.sign(sighash, this.privateKey, { lowS: true }).toDERRawBytes(), new Uint8Array([0x01])), pubKey];
+
+    return base64.encode(concatBytes(
+      varint(witness.length),
+      ...witness.flatMap(item => [varint(item.length), item])
+    ));
+  }
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Check a signature made by any of the supported schemes against an address.
+ * The scheme is recognised from the signature itself: 64-byte hex (schnorr),
+ * 65-byte base64 compact (ecdsa) or a base64 witness stack (bip322).
+ */
+export function verifyMessage(address: string, message: string, signature: string): boolean {
+  try {
+    const decoded = decodeAddress(address);
+
+    if (/^[0-9a-f]{128}$/i.test(signature)) {
+      return decoded.type === 'p2tr'
+        && schnorr.verify(hexToBytes(signature), bitcoinMessageHash(message), decoded.program);
+    }
+
+    const raw = base64.decode(signature);
+
+    if (raw.length === 65 && raw[0] >= 27 && raw[0] <= 42) {
+      if (decoded.type === 'p2tr') return false;
+      const sig = secp256k1.Signature.fromCompact(raw.slice(1)).addRecoveryBit((raw[0] - 27) & 3);
+      const pubKey = sig.recoverPublicKey(bitcoinMessageHash(message)).toRawBytes(true);
+      return bytesToHex(hash160(pubKey)) === bytesToHex(decoded.program);
+    }
+
+    const witness = parseWitness(raw);
+    const scriptPubKey = decoded.type === 'p2tr'
+      ? concatBytes(new Uint8Array([0x51, 0x20]), decoded.program)
+      : concatBytes(new Uint8Array([0x00, 0x14]), decoded.program);
+
+    // 64 bytes: SIGHASH_DEFAULT; 65 bytes: an explicit sighash type follows
+    if (decoded.type === 'p2tr' && witness.length === 1 && (witness[0].length === 64 || witness[0].length === 65)) {
+      const [sig] = witness;
+      const hashType = sig.length === 65 ? sig[64] : 0x00;
+      if (sig.length === 65 && !TAPROOT_HASH_TYPES.includes(hashType)) return false;
+      const sighash = bip322Sighash('p2tr', scriptPubKey, decoded.program, message, hashType);
+      return schnorr.verify(sig.slice(0, 64), sighash, decoded.program);
+    }
+    if (decoded.type === 'p2wpkh' && witness.length === 2) {
+      const [sig, pubKey] = witness;
+      if (sig[sig.length - 1] !== 0x01 || bytesToHex(hash160(pubKey)) !== bytesToHex(decoded.program)) {
+        return false;
+      }
+      const sighash = bip322Sighash('p2wpkh', scriptPubKey, pubKey, message);
+      const compact = secp256k1.Signature.fromDER(sig.slice(0, -1)).toCompactRawBytes();
+      return secp256k1.verify(compact, sighash, pubKey, { lowS: false });
+    }
+    return false;
+  } catch {
+    return false;
+  }
+}
+
+function decodeAddress(address: string): { type: AddressType; program: Uint8Array } {
+  const lower = address.toLowerCase();
+  if (lower.startsWith('bc1p') || lower.startsWith('tb1p')) {
+    const { words } = bech32m.decode(address as `${string}1${string}`);
+    return { type: 'p2tr', program: bech32m.fromWords(words.slice(1)) };
+  }
+  if (lower.startsWith('bc1q') || lower.startsWith('tb1q')) {
+    const { words } = bech32.decode(address as `${string}1${string}`);
+    return { type: 'p2wpkh', program: bech32.fromWords(words.slice(1)) };
+  }
+  return { type: 'p2pkh', program: b58check.decode(address).slice(1) };
+}
+
+function parseWitness(raw: Uint8Array): Uint8Array[] {
+  const items: Uint8Array[] = [];
+  let [count, offset] = readVarint(raw, 0);
+  for (; count > 0; count--) {
+    const [length, start] = readVarint(raw, offset);
+    if (start + length > raw.length) throw new Error('Malformed witness');
+    items.push(raw.slice(start, start + length));
+    offset = start + length;
+  }
+  if (offset !== raw.length) throw new Error('Malformed witness');
+  return items;
+}
+
+// CompactSize integer at offset: [value, offset after it]
+function readVarint(raw: Uint8Array, offset: number): [number, number] {
+  const view = new DataView(raw.buffer, raw.byteOffset, raw.byteLength);
+  const first = raw[offset];
+  if (first === undefined) throw new Error('Malformed witness');
+  if (first < 0xfd) return [first, offset + 1];
+  if (first === 0xfd && offset + 3 <= raw.length) return [view.getUint16(offset + 1, true), offset + 3];
+  if (first === 0xfe && offset + 5 <= raw.length) return [view.getUint32(offset + 1, true), offset + 5];
+  throw new Error('Malformed witness');  // 0xff (8-byte) lengths never fit in a signature
+}
+
+/**
+ * BIP-322 "simple": sighash of the virtual to_sign transaction spending
+ * to_spend (BIP-341 with the given hash type for P2TR, BIP-143 SIGHASH_ALL
+ * for P2WPKH)
+ */
+function bip322Sighash(
+  type: AddressType,
+  scriptPubKey: Uint8Array,
+  pubKey: Uint8Array,
+  message: string,
+  hashType = 0x00
+): Uint8Array {
+  const messageHash = schnorr.utils.taggedHash('BIP0322-signed-message', utf8ToBytes(message));
+  const toSpend = concatBytes(
+    u32le(0),                                       // version
+    varint(1),
+    new Uint8Array(32), u32le(0xffffffff),          // prevout
+    varint(34), new Uint8Array([0x00, 0x20]), messageHash,
+    u32le(0),                                       // sequence
+    varint(1),
+    u64le(0), varint(scriptPubKey.length), scriptPubKey,
+    u32le(0)                                        // locktime
+  );
+  const prevout = concatBytes(sha256d(toSpend), u32le(0));
+  const opReturnOutput = concatBytes(u64le(0), varint(1), new Uint8Array([0x6a]));
+
+  if (type === 'p2tr') {
+    const anyoneCanPay = (hashType & SIGHASH_ANYONECANPAY) !== 0;
+    const outputType = hashType & 0x03;
+    const prevScript = concatBytes(varint(scriptPubKey.length), scriptPubKey);
+    const sigMsg = concatBytes(
+      new Uint8Array([0x00, hashType]),             // epoch, hash type
+      u32le(0), u32le(0),                           // version, locktime
+      ...(anyoneCanPay ? [] : [
+        sha256(prevout),
+        sha256(u64le(0)),
+        sha256(prevScript),
+        sha256(u32le(0))
+      ]),
+      ...(outputType === SIGHASH_NONE || outputType === SIGHASH_SINGLE ? [] : [sha256(opReturnOutput)]),
+      new Uint8Array([0x00]),                       // spend type
+      ...(anyoneCanPay ? [prevout, u64le(0), prevScript, u32le(0)] : [u32le(0)]),  // this input / its index
+      ...(outputType === SIGHASH_SINGLE ? [sha256(opReturnOutput)] : [])
+    );
+    return schnorr.utils.taggedHash('TapSighash', sigMsg);
+  }
+
+  const scriptCode = concatBytes(new Uint8Array([0x19, 0x76, 0xa9, 0x14]), hash160(pubKey), new Uint8Array([0x88, 0xac]));
+  return sha256d(concatBytes(
+    u32le(0),
+    sha256d(prevout),
+    sha256d(u32le(0)),
+    prevout,
+    scriptCode,
+    u64le(0),
+    u32le(0),
+    sha256d(opReturnOutput),
+    u32le(0),
+    u32le(1)
+  ));
+}
+
+// =============================================================================
+// Discovery
+// =============================================================================
+
+/**
+ * Default key file location inside a config directory
+ */
+export function defaultKeyFilePath(configDir: string = join(homedir(), '.mcpsovereign')): string {
+  return join(configDir, 'wallet.key');
+}
+
+/**
+ * Find a signer without any explicit configuration. Checks, in order:
+ * MCPSOVEREIGN_PRIVATE_KEY, MCPSOVEREIGN_SEED, MCPSOVEREIGN_KEY_FILE, and
+ * `wallet.key` in the config directory. Returns null if none is set.
+ */
+export async function loadDefaultSigner(configDir?: string): Promise<KeySigner | null> {
+  const env = process.env;
+  const overrides: SignerOptions = {
+    scheme: env.MCPSOVEREIGN_SIGNATURE_SCHEME as SignatureScheme | undefined,
+    addressType: env.MCPSOVEREIGN_ADDRESS_TYPE as AddressType | undefined
+  };
+  // Drop unset overrides so they don't mask key file settings
+  for (const key of Object.keys(overrides) as (keyof SignerOptions)[]) {
+    if (overrides[key] === undefined) delete overrides[key];
+  }
+
+  if (env.MCPSOVEREIGN_PRIVATE_KEY) {
+    return new KeySigner({ ...overrides, privateKey: env.MCPSOVEREIGN_PRIVATE_KEY });
+  }
+  if (env.MCPSOVEREIGN_SEED) {
+    return new KeySigner({ ...overrides, seed: env.MCPSOVEREIGN_SEED, path: env.MCPSOVEREIGN_DERIVATION_PATH });
+  }
+  if (env.MCPSOVEREIGN_KEY_FILE) {
+    return KeySigner.fromFile(env.MCPSOVEREIGN_KEY_FILE, overrides);
+  }
+
+  const fs = await import('fs');
+  const keyFile = defaultKeyFilePath(configDir);
+  return fs.existsSync(keyFile) ? KeySigner.fromFile(keyFile, overrides) : null;
+}
+
+// =============================================================================
+// Keys & Addresses
+// =============================================================================
+
+function parsePrivateKey(value: string): { key: Uint8Array; network?: BitcoinNetwork } {
+  if (/^[0-9a-fA-F]{64}$/.test(value)) {
+    return { key: checkPrivateKey(hexToBytes(value)) };
+  }
+
+  let payload: Uint8Array;
+  try {
+    payload = b58check.decode(value);
+  } catch {
+    throw new Error('Private key must be 64 hex characters or a WIF string');
+  }
+
+  const network = (Object.keys(NETWORKS) as BitcoinNetwork[]).find(n => NETWORKS[n].wif === payload[0]);
+  if (!network) {
+    throw new Error('Unrecognised WIF network prefix');
+  }
+  if (payload.length !== 34 || payload[33] !== 0x01) {
+    throw new Error('Only compressed WIF keys are supported');
+  }
+
+  return { key: checkPrivateKey(payload.slice(1, 33)), network };
+}
+
+function checkPrivateKey(key: Uint8Array): Uint8Array {
+  if (!secp256k1.utils.isValidPrivateKey(key)) {
+    throw new Error('Private key is out of range for secp256k1');
+  }
+  return key;
+}
+
+function defaultPath(addressType: AddressType, network: BitcoinNetwork): string {
+  return `m/${PURPOSE[addressType]}'/${NETWORKS[network].coinType}'/0'/0/0`;
+}
+
+/**
+ * BIP-32 private key derivation from a seed
+ */
+function derivePrivateKey(seed: Uint8Array, path: string): Uint8Array {
+  const segments = path.trim().split('/');
+  if (segments.shift() !== 'm') {
+    throw new Error(`Invalid derivation path: ${path}`);
+  }
+
+  let I = hmac(sha512, utf8ToBytes('Bitcoin seed'), seed);
+  let key: Uint8Array = I.slice(0, 32);
+  let chainCode: Uint8Array = I.slice(32);
+
+  for (const segment of segments) {
+    const match = /^(\d+)(['hH]?)$/.exec(segment);
+    if (!match) {
+      throw new Error(`Invalid derivation path segment: ${segment}`);
+    }
+
+    const hardened = match[2] !== '';
+    const index = (Number(match[1]) + (hardened ? 0x80000000 : 0)) >>> 0;
+    const data = hardened
+      ? concatBytes(new Uint8Array([0]), key, u32be(index))
+      : concatBytes(secp256k1.getPublicKey(key, true), u32be(index));
+
+    I = hmac(sha512, chainCode, data);
+    const tweak = bytesToBigInt(I.slice(0, 32));
+    const child = (tweak + bytesToBigInt(key)) % CURVE_ORDER;
+    if (tweak >= CURVE_ORDER || child === 0n) {
+      throw new Error(`Derivation produced an invalid key at ${segment}`);
+    }
+    key = bigIntToBytes(child);
+    chainCode = I.slice(32);
+  }
+
+  return checkPrivateKey(key);
+}
+
+function encodeAddress(type: AddressType, privateKey: Uint8Array, network: BitcoinNetwork): string {
+  const params = NETWORKS[network];
+  const pubKey = secp256k1.getPublicKey(privateKey, true);
+
+  switch (type) {
+    case 'p2pkh':
+      return b58check.encode(concatBytes(new Uint8Array([params.pubKeyHash]), hash160(pubKey)));
+    case 'p2wpkh':
+      return bech32.encode(params.bech32, [0, ...bech32.toWords(hash160(pubKey))]);
+    case 'p2tr':
+      return bech32m.encode(params.bech32, [1, ...bech32m.toWords(taprootOutputKey(privateKey))]);
+  }
+}
+
+function outputScript(type: AddressType, privateKey: Uint8Array): Uint8Array {
+  if (type === 'p2tr') {
+    return concatBytes(new Uint8Array([0x51, 0x20]), taprootOutputKey(privateKey));
+  }
+  return concatBytes(new Uint8Array([0x00, 0x14]), hash160(secp256k1.getPublicKey(privateKey, true)));
+}
+
+/**
+ * BIP-86 key-path-only tweak: d' = d + H_TapTweak(P) with P forced to even y
+ */
+function taprootTweakedKey(privateKey: Uint8Array): Uint8Array {
+  const pubKey = secp256k1.getPublicKey(privateKey, true);
+  const d = bytesToBigInt(privateKey);
+  const even = pubKey[0] === 0x02 ? d : CURVE_ORDER - d;
+  const tweak = bytesToBigInt(schnorr.utils.taggedHash('TapTweak', pubKey.slice(1)));
+  return bigIntToBytes((even + tweak) % CURVE_ORDER);
+}
+
+function taprootOutputKey(privateKey: Uint8Array): Uint8Array {
+  return schnorr.getPublicKey(taprootTweakedKey(privateKey));
+}
+
+// =============================================================================
+// Hashing & Encoding Helpers
+// =============================================================================
+
+/**
+ * Hash used by Bitcoin Core's signmessage
+ */
+function bitcoinMessageHash(message: string): Uint8Array {
+  const prefix = utf8ToBytes('\x18Bitcoin Signed Message:\n');
+  const body = utf8ToBytes(message);
+  return sha256d(concatBytes(prefix, varint(body.length), body));
+}
+
+function sha256d(data: Uint8Array): Uint8Array {
+  return sha256(sha256(data));
+}
+
+function hash160(data: Uint8Array): Uint8Array {
+  return ripemd160(sha256(data));
+}
+
+function varint(n: number): Uint8Array {
+  if (n < 0xfd) return new Uint8Array([n]);
+  if (n <= 0xffff) return new Uint8Array([0xfd, n & 0xff, n >> 8]);
+  return concatBytes(new Uint8Array([0xfe]), u32le(n));
+}
+
+function u32le(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n, true);
+  return out;
+}
+
+function u32be(n: number): Uint8Array {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n, false);
+  return out;
+}
+
+function u64le(n: number): Uint8Array {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setBigUint64(0, BigInt(n), true);
+  return out;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return BigInt('0x' + (bytesToHex(bytes) || '0'));
+}
+
+function bigIntToBytes(n: bigint): Uint8Array {
+  return hexToBytes(n.toString(16).padStart(64, '0'));
+}
+
+function expandHome(filePath: string): string {
+  return filePath.startsWith('~/') ? join(homedir(), filePath.slice(2)) : filePath;
+}
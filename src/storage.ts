@@ -0,0 +1,213 @@
+// =============================================================================
+// mcpSovereign SDK - Crash-Safe File Storage
+// =============================================================================
+// The MCP server, the helper and the setup CLI can all write the same local
+// store. Writes go through three safeguards:
+//
+//   lock     an advisory <file>.lock (created with O_EXCL) serialises writers;
+//            a lock whose owner died or that outlived staleMs is taken over
+//   backup   the previous file is rotated to <file>.bak.1 .. <file>.bak.N
+//   atomic   data is written to a temp file, fsynced and renamed over the
+//            target, so a crash leaves either the old or the new file
+//
+//   await withFileLock(path, async () => {
+//     await rotateBackups(path, 3);
+//     await writeFileAtomic(path, json);
+//   });
+
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { dirname } from 'path';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FileLockOptions {
+  timeoutMs?: number;  // Give up waiting for the lock after this long (default: 5s)
+  staleMs?: number;    // Treat a lock older than this as abandoned (default: 30s)
+  retryMs?: number;    // Poll interval while waiting (default: 50ms)
+}
+
+export interface LockInfo {
+  id: string;
+  pid: number;
+  host: string;
+  created_at: string;
+}
+
+export class FileLockError extends Error {
+  readonly path: string;
+  /** Process holding the lock, when it could be read */
+  readonly holder?: LockInfo;
+
+  constructor(path: string, message: string, holder?: LockInfo) {
+    super(message);
+    this.name = 'FileLockError';
+    this.path = path;
+    this.holder = holder;
+  }
+}
+
+const DEFAULT_LOCK_TIMEOUT_MS = 5000;
+const DEFAULT_STALE_LOCK_MS = 30_000;
+const DEFAULT_LOCK_RETRY_MS = 50;
+
+// =============================================================================
+// Locking
+// =============================================================================
+
+/**
+ * Run fn while holding the advisory lock for filePath
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const release = await acquireLock(filePath, options);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
+
+async function acquireLock(filePath: string, options: FileLockOptions): Promise<() => Promise<void>> {
+  const fs = await import('fs');
+  const lockPath = `${filePath}.lock`;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_STALE_LOCK_MS;
+  const retryMs = options.retryMs ?? DEFAULT_LOCK_RETRY_MS;
+  const deadline = Date.now() + timeoutMs;
+  const info: LockInfo = {
+    id: randomBytes(8).toString('hex'),
+    pid: process.pid,
+    host: hostname(),
+    created_at: new Date().toISOString()
+  };
+
+  fs.mkdirSync(dirname(filePath), { recursive: true });
+
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, JSON.stringify(info), { flag: 'wx' });
+      return async () => {
+        // Only remove the lock if it is still ours (it may have been taken over as stale)
+        if (readLock(fs, lockPath)?.id === info.id) {
+          fs.rmSync(lockPath, { force: true });
+        }
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    const holder = readLock(fs, lockPath);
+    if (isStale(fs, lockPath, holder, staleMs)) {
+      // Skip the takeover if another waiter already replaced the stale lock
+      if (holder && readLock(fs, lockPath)?.id !== holder.id) continue;
+      fs.rmSync(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new FileLockError(
+        lockPath,
+        `Timed out waiting for ${lockPath}` + (holder ? ` (held by pid ${holder.pid} on ${holder.host})` : ''),
+        holder ?? undefined
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, retryMs));
+  }
+}
+
+function readLock(fs: typeof import('fs'), lockPath: string): LockInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as LockInfo;
+  } catch {
+    return null;
+  }
+}
+
+function isStale(fs: typeof import('fs'), lockPath: string, holder: LockInfo | null, staleMs: number): boolean {
+  let age: number;
+  try {
+    age = Date.now() - fs.statSync(lockPath).mtimeMs;
+  } catch {
+    return false;  // Released between our attempts - just retry
+  }
+  if (age > staleMs) return true;
+
+  // A lock left behind by a dead process on this machine can go at once
+  if (holder && holder.host === hostname() && holder.pid !== process.pid) {
+    try {
+      process.kill(holder.pid, 0);
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+  return false;
+}
+
+// =============================================================================
+// Writes & Backups
+// =============================================================================
+
+/**
+ * Write a file via temp file + fsync + rename
+ */
+export async function writeFileAtomic(filePath: string, data: string, mode?: number): Promise<void> {
+  const fs = await import('fs');
+  const tmpPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+  fs.mkdirSync(dirname(filePath), { recursive: true });
+
+  try {
+    const fd = fs.openSync(tmpPath, 'w', mode);
+    try {
+      fs.writeFileSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+
+  // Persist the rename itself (not supported on every platform)
+  try {
+    const dirFd = fs.openSync(dirname(filePath), 'r');
+    try {
+      fs.fsyncSync(dirFd);
+    } finally {
+      fs.closeSync(dirFd);
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Shift <file>.bak.1..N-1 up by one and copy the current file to <file>.bak.1
+ */
+export async function rotateBackups(filePath: string, count: number): Promise<void> {
+  const fs = await import('fs');
+  if (count <= 0 || !fs.existsSync(filePath)) return;
+
+  for (let i = count - 1; i >= 1; i--) {
+    const from = backupPath(filePath, i);
+    if (fs.existsSync(from)) {
+      fs.renameSync(from, backupPath(filePath, i + 1));
+    }
+  }
+  fs.copyFileSync(filePath, backupPath(filePath, 1));
+}
+
+/**
+ * Location of the nth most recent backup (1 = newest)
+ */
+export function backupPath(filePath: string, n: number): string {
+  return `${filePath}.bak.${n}`;
+}
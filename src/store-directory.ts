@@ -0,0 +1,354 @@
+// =============================================================================
+// mcpSovereign SDK - Directory Store Format
+// =============================================================================
+// An alternative on-disk layout for the local store that is easy to review
+// in git. It holds exactly the same data as sovereign-store.json:
+//
+//   my-store/
+//     store.md                     profile + store version (frontmatter), profile description (body)
+//     .sovereign-state.json        sync state and library (untracked, see below)
+//     .gitignore                   keeps the state file, lock and archives out of git
+//     products/
+//       <local_id>/
+//         product.md               product fields (frontmatter), description (body)
+//         files/...                deliverable files (optional)
+//         deliverable.tar.gz       packed deliverable (generated, untracked)
+//
+//   ---
+//   name: Prompt Pack
+//   price: 25
+//   category_id: prompts
+//   delivery_type: download
+//   status: draft
+//   ---
+//
+//   Fifty prompts for code review.
+//
+// Frontmatter is the YAML subset this module writes: one `key: value` per
+// line, plain or quoted scalars, JSON-style flow values ({...}, [...]) and
+// block sequences of those. The folder name is the product's local_id, and
+// fields a hand-written product.md leaves out get defaults (status draft,
+// timestamps from the file). Deliverable paths inside the store directory
+// are kept relative so the repository can live anywhere; other paths are
+// written absolute.
+//
+// Sync state (last_sync, pull_cursor, sync_history) and the library of
+// purchases, including live download tokens, change on every sync and are
+// private to this machine, so they live in .sovereign-state.json, which the
+// generated .gitignore excludes. It also records the product order; products
+// it doesn't list (e.g. in a fresh clone) are ordered by created_at.
+
+import { isAbsolute, join, relative, resolve, sep } from 'path';
+import { StoreError } from './store-schema.js';
+import { writeFileAtomic } from './storage.js';
+import type { LocalProduct, LocalStore } from './index.js';
+
+export const STORE_FILE = 'store.md';
+export const PRODUCT_FILE = 'product.md';
+export const PRODUCTS_DIR = 'products';
+export const STATE_FILE = '.sovereign-state.json';
+export const DELIVERABLE_ARCHIVE = 'deliverable.tar.gz';  // Packed deliverable, next to product.md
+
+// Store fields kept in STATE_FILE rather than in store.md
+const STATE_KEYS = ['last_sync', 'pull_cursor', 'sync_history', 'library', 'recovery'] as const;
+
+// Entries the generated .gitignore must contain
+const IGNORED = [STATE_FILE, `${STORE_FILE}.lock`, `${PRODUCTS_DIR}/*/${DELIVERABLE_ARCHIVE}`];
+
+// Listed first in product.md, in this order
+const PRODUCT_KEYS = ['name', 'price', 'category_id', 'delivery_type', 'status'] as const;
+
+const SAFE_ID = /^[A-Za-z0-9_][\w.-]*$/;
+
+/**
+ * True if id can be used as a single folder name: no path separators and
+ * no leading dot (so never "." or "..")
+ */
+export function isSafeId(id: string): boolean {
+  return SAFE_ID.test(id);
+}
+const PLAIN_STRING = /^[A-Za-z_][\w .,/()+-]*$/;
+const NUMBER = /^-?\d+(\.\d+)?([eE][-+]?\d+)?$/;
+const RESERVED = ['true', 'false', 'null', 'yes', 'no', 'on', 'off', 'y', 'n', '~'];
+
+// =============================================================================
+// Load & Save
+// =============================================================================
+
+/**
+ * Read a store directory into the same shape as a parsed store file
+ * (before migration and validation)
+ */
+export async function readStoreDirectory(dir: string): Promise<Record<string, unknown>> {
+  const fs = await import('fs');
+  const store: Record<string, unknown> = { profile: {}, products: [], sync_history: [] };
+
+  const storeFile = join(dir, STORE_FILE);
+  if (fs.existsSync(storeFile)) {
+    const { data, body } = parseFrontmatter(fs.readFileSync(storeFile, 'utf-8'), storeFile);
+    const profile: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(data)) {
+      if (key === 'version' || (STATE_KEYS as readonly string[]).includes(key)) {
+        store[key] = value;
+      } else {
+        profile[key] = value;
+      }
+    }
+    if (profile.description === undefined && body) {
+      profile.description = body;
+    }
+    store.profile = profile;
+  }
+
+  let order: unknown[] = [];
+  const stateFile = join(dir, STATE_FILE);
+  if (fs.existsSync(stateFile)) {
+    let state: unknown;
+    try {
+      state = JSON.parse(fs.readFileSync(stateFile, 'utf-8'));
+    } catch (error) {
+      throw new StoreError(stateFile, [`not valid JSON (${error instanceof Error ? error.message : error})`]);
+    }
+    if (!isRecord(state)) {
+      throw new StoreError(stateFile, ['expected a JSON object']);
+    }
+    for (const key of STATE_KEYS) {
+      if (key in state) store[key] = state[key];
+    }
+    if (Array.isArray(state.product_order)) order = state.product_order;
+  }
+
+  const productsDir = join(dir, PRODUCTS_DIR);
+  const products: Record<string, unknown>[] = [];
+  if (fs.existsSync(productsDir)) {
+    for (const name of fs.readdirSync(productsDir).sort()) {
+      const productFile = join(productsDir, name, PRODUCT_FILE);
+      if (!fs.existsSync(productFile)) continue;  // Not a product folder
+
+      const { data, body } = parseFrontmatter(fs.readFileSync(productFile, 'utf-8'), productFile);
+      const modified = fs.statSync(productFile).mtime.toISOString();
+      const product: Record<string, unknown> = {
+        description: body,
+        status: 'draft',
+        created_at: modified,
+        updated_at: modified,
+        ...data,
+        local_id: name
+      };
+      if (isRecord(product.deliverable)) {
+        product.deliverable = mapPaths(product.deliverable, path => resolve(dir, path));
+      }
+      products.push(product);
+    }
+  }
+  // Same order as the JSON file
+  const position = (product: Record<string, unknown>) => {
+    const index = order.indexOf(product.local_id);
+    return index === -1 ? order.length : index;
+  };
+  store.products = products.sort((a, b) =>
+    position(a) - position(b) || String(a.created_at).localeCompare(String(b.created_at))
+  );
+
+  return store;
+}
+
+/**
+ * Write the store as store.md plus one product.md per product. The folders
+ * of `removed` products lose their product.md and packed deliverable (other
+ * files in them are kept);
+ * folders the store does not know about are left alone.
+ */
+export async function writeStoreDirectory(dir: string, store: LocalStore, removed: string[] = []): Promise<void> {
+  const fs = await import('fs');
+  const { profile, products, ...state } = store;
+
+  const invalid = products.filter(p => !isSafeId(p.local_id)).map(p => p.local_id);
+  if (invalid.length > 0) {
+    throw new StoreError(dir, invalid.map(id => `local_id ${JSON.stringify(id)} cannot be used as a folder name`));
+  }
+
+  const { description, ...profileFields } = profile;
+  const storeData: Record<string, unknown> = { version: state.version, ...profileFields };
+  if (description === '') storeData.description = '';
+  await writeIfChanged(fs, join(dir, STORE_FILE), formatFrontmatter(storeData, description ?? ''));
+
+  const stateData: Record<string, unknown> = {};
+  for (const key of STATE_KEYS) stateData[key] = state[key];
+  stateData.product_order = products.map(p => p.local_id);
+  await writeIfChanged(fs, join(dir, STATE_FILE), JSON.stringify(stateData, null, 2) + '\n', 0o600);
+  await ensureIgnored(fs, dir);
+
+  const productsDir = join(dir, PRODUCTS_DIR);
+  for (const product of products) {
+    await writeIfChanged(fs, join(productsDir, product.local_id, PRODUCT_FILE), formatProduct(dir, product));
+  }
+
+  for (const localId of removed) {
+    const folder = join(productsDir, localId);
+    if (!isSafeId(localId) || products.some(p => p.local_id === localId)) continue;
+
+    fs.rmSync(join(folder, PRODUCT_FILE), { force: true });
+    fs.rmSync(join(folder, DELIVERABLE_ARCHIVE), { force: true });
+    if (fs.existsSync(folder) && fs.readdirSync(folder).length === 0) fs.rmdirSync(folder);
+  }
+}
+
+function formatProduct(dir: string, product: LocalProduct): string {
+  const { local_id: _localId, description, ...fields } = product;
+  const data: Record<string, unknown> = {};
+
+  for (const key of PRODUCT_KEYS) data[key] = fields[key];
+  for (const [key, value] of Object.entries(fields)) {
+    if (!(key in data)) data[key] = value;
+  }
+  if (fields.deliverable) {
+    data.deliverable = mapPaths(fields.deliverable, path => {
+      const absolute = resolve(path);
+      const rel = relative(resolve(dir), absolute);
+      const inside = rel && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+      return inside ? rel.split(sep).join('/') : absolute;
+    });
+  }
+
+  return formatFrontmatter(data, description);
+}
+
+async function writeIfChanged(fs: typeof import('fs'), filePath: string, contents: string, mode?: number): Promise<void> {
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf-8') === contents) return;
+  await writeFileAtomic(filePath, contents, mode);
+}
+
+// Add any missing IGNORED entries to the store's .gitignore, keeping the rest
+async function ensureIgnored(fs: typeof import('fs'), dir: string): Promise<void> {
+  const gitignore = join(dir, '.gitignore');
+  const current = fs.existsSync(gitignore) ? fs.readFileSync(gitignore, 'utf-8') : '';
+  const lines = current.split(/\r?\n/).map(line => line.trim());
+  const missing = IGNORED.filter(entry => !lines.includes(entry) && !lines.includes(`/${entry}`));
+  if (missing.length === 0) return;
+
+  const prefix = current && !current.endsWith('\n') ? `${current}\n` : current;
+  await writeFileAtomic(gitignore, `${prefix}${missing.join('\n')}\n`);
+}
+
+function mapPaths<T extends object>(deliverable: T, fn: (path: string) => string): T {
+  const mapped = { ...deliverable } as Record<string, unknown>;
+  for (const key of ['source_path', 'archive_path']) {
+    if (typeof mapped[key] === 'string') mapped[key] = fn(mapped[key] as string);
+  }
+  return mapped as T;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// =============================================================================
+// Frontmatter
+// =============================================================================
+
+/**
+ * Render data as YAML frontmatter followed by a Markdown body.
+ * Undefined values are left out.
+ */
+export function formatFrontmatter(data: Record<string, unknown>, body: string): string {
+  let output = '---\n';
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+
+    if (Array.isArray(value) && value.length > 0 && value.every(isRecord)) {
+      output += `${key}:\n`;
+      for (const item of value) output += `  - ${formatScalar(item)}\n`;
+    } else {
+      output += `${key}: ${formatScalar(value)}\n`;
+    }
+  }
+  output += '---\n';
+  return body ? `${output}\n${body}\n` : output;
+}
+
+/**
+ * Split a Markdown file into its frontmatter data and body
+ */
+export function parseFrontmatter(contents: string, path: string): { data: Record<string, unknown>; body: string } {
+  const text = contents.replace(/\r\n/g, '\n');
+  if (!text.startsWith('---\n')) {
+    throw new StoreError(path, ['missing frontmatter (the file must start with ---)']);
+  }
+
+  const end = text.indexOf('\n---', 3);
+  if (end === -1 || (text[end + 4] !== undefined && text[end + 4] !== '\n')) {
+    throw new StoreError(path, ['frontmatter is not closed with ---']);
+  }
+
+  const lines = text.slice(4, end + 1).split('\n');
+  const data: Record<string, unknown> = {};
+  const issues: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim() || line.trimStart().startsWith('#')) continue;
+
+    const match = /^([A-Za-z_][\w-]*):(?:[ \t]+(.*))?$/.exec(line);
+    if (!match) {
+      issues.push(`line ${i + 2}: expected "key: value"`);
+      continue;
+    }
+
+    const [, key, raw = ''] = match;
+    try {
+      if (raw.trim()) {
+        data[key] = parseScalar(raw);
+        continue;
+      }
+
+      // Block sequence ("  - item" lines) or an empty value
+      const items: unknown[] = [];
+      while (i + 1 < lines.length && /^\s+-(\s|$)/.test(lines[i + 1])) {
+        items.push(parseScalar(lines[++i].replace(/^\s+-\s*/, '')));
+      }
+      data[key] = items.length > 0 ? items : null;
+    } catch (error) {
+      issues.push(`line ${i + 2}: ${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new StoreError(path, issues);
+  }
+
+  const body = text.slice(end + 5).replace(/^\n/, '').replace(/\n$/, '');
+  return { data, body };
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') {
+    const plain = PLAIN_STRING.test(value) && value === value.trim() && !RESERVED.includes(value.toLowerCase());
+    return plain ? value : JSON.stringify(value);
+  }
+  return JSON.stringify(value);
+}
+
+function parseScalar(raw: string): unknown {
+  const value = raw.trim();
+
+  if (value.startsWith('"') || value.startsWith('{') || value.startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error('quoted and flow values must be valid JSON');
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) throw new Error('unterminated single-quoted string');
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+
+  const plain = value.replace(/\s+#.*$/, '');
+  if (plain === 'null' || plain === '~') return null;
+  if (plain === 'true' || plain === 'false') return plain === 'true';
+  if (NUMBER.test(plain)) return Number(plain);
+  return plain;
+}
@@ -0,0 +1,278 @@
+// =============================================================================
+// mcpSovereign SDK - Local Store Schema & Migrations
+// =============================================================================
+// Every store file carries a `version`. On load the file is upgraded one step
+// at a time through STORE_MIGRATIONS (keyed by the version it migrates from)
+// and then validated strictly. Files written before versioning was enforced
+// are treated as 1.0.0.
+//
+// A file that cannot be parsed, migrated or validated is never replaced by an
+// empty store: LocalStoreManager moves it aside to <store>.corrupt-<timestamp>
+// and writes the newest backup that still loads in its place, with a
+// `recovery` notice that stays until clearRecovery().
+//
+// Several processes can share one store. A save that finds the file changed
+// since this process last read or wrote it merges the two with
+// mergeStoreChanges() instead of overwriting the other process's work.
+
+import { canonicalJson } from './manifest.js';
+import type { LocalStore } from './index.js';
+
+export const STORE_VERSION = '1.1.0';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface StoreMigration {
+  to: string;
+  description: string;
+  migrate: (store: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface StoreRecovery {
+  quarantined_path: string;      // Where the unreadable file was moved
+  restored_from: string | null;  // Backup the store was recovered from (null: started empty)
+  issues: string[];
+  recovered_at: string;
+}
+
+export class StoreError extends Error {
+  readonly path: string;
+  readonly issues: string[];
+
+  constructor(path: string, issues: string[]) {
+    super(`Invalid local store ${path}: ${issues.join('; ')}`);
+    this.name = new.target.name;
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
+/**
+ * The store was written by a newer SDK. It is left untouched on disk and
+ * the manager refuses to save over it.
+ */
+export class StoreVersionError extends StoreError {
+  readonly version: string;
+
+  constructor(path: string, version: string) {
+    super(path, [`store version ${version} was written by a newer SDK (this one reads up to ${STORE_VERSION})`]);
+    this.version = version;
+  }
+}
+
+const PRODUCT_STATUSES = ['draft', 'ready', 'synced', 'modified', 'deleted'];
+const DELIVERY_TYPES = ['download', 'repo', 'api', 'manual'];
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+export const STORE_MIGRATIONS: Record<string, StoreMigration> = {
+  '1.0.0': {
+    to: '1.1.0',
+    // 1.1.0 is also the first version with tombstones (status deleted),
+    // merge state (base, conflicts) and sync_error; they need no migration
+    description: 'Fill in sections and timestamps older SDKs could leave out',
+    migrate: store => ({
+      ...store,
+      profile: store.profile ?? {},
+      sync_history: store.sync_history ?? [],
+      products: Array.isArray(store.products)
+        ? store.products.map((p: Record<string, unknown>) => ({
+          ...p,
+          updated_at: p.updated_at ?? p.created_at
+        }))
+        : store.products
+    })
+  }
+};
+
+/**
+ * Upgrade a parsed store file to STORE_VERSION.
+ * `migrated` is true when at least one migration ran.
+ */
+export function migrateStore(raw: unknown, path: string): { store: LocalStore; migrated: boolean } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new StoreError(path, ['store must be a JSON object']);
+  }
+
+  let store = raw as Record<string, unknown>;
+  let version = typeof store.version === 'string' ? store.version : '1.0.0';
+
+  if (compareVersions(version, STORE_VERSION) > 0) {
+    throw new StoreVersionError(path, version);
+  }
+
+  let migrated = false;
+  while (version !== STORE_VERSION) {
+    const migration = STORE_MIGRATIONS[version];
+    if (!migration) {
+      throw new StoreError(path, [`no migration from store version ${version}`]);
+    }
+    store = { ...migration.migrate(store), version: migration.to };
+    version = migration.to;
+    migrated = true;
+  }
+
+  return { store: store as unknown as LocalStore, migrated };
+}
+
+/**
+ * Throw a StoreError listing everything wrong with the store
+ */
+export function validateStore(store: LocalStore, path: string): void {
+  const issues: string[] = [];
+
+  if (!store.profile || typeof store.profile !== 'object' || Array.isArray(store.profile)) {
+    issues.push('profile must be an object');
+  }
+  if (!Array.isArray(store.sync_history)) {
+    issues.push('sync_history must be an array');
+  }
+  if (store.pull_cursor !== undefined && typeof store.pull_cursor !== 'string') {
+    issues.push('pull_cursor must be a string');
+  }
+  if (store.recovery !== undefined && typeof store.recovery?.quarantined_path !== 'string') {
+    issues.push('recovery must have a quarantined_path');
+  }
+  if (store.library !== undefined) {
+    if (!Array.isArray(store.library)) {
+      issues.push('library must be an array');
+    } else {
+      store.library.forEach((e, i) => {
+        if (typeof e?.purchase_id !== 'string' || typeof e.product_id !== 'string') {
+          issues.push(`library[${i}] must have a purchase_id and a product_id`);
+        } else if (typeof e.download_count !== 'number' || typeof e.max_downloads !== 'number') {
+          issues.push(`library[${i}] must have download_count and max_downloads`);
+        }
+      });
+    }
+  }
+
+  if (!Array.isArray(store.products)) {
+    issues.push('products must be an array');
+  } else {
+    const seen = new Set<string>();
+    store.products.forEach((p, i) => {
+      const where = `products[${i}]`;
+      if (!p || typeof p !== 'object') {
+        issues.push(`${where} must be an object`);
+        return;
+      }
+      if (typeof p.local_id !== 'string' || !p.local_id) {
+        issues.push(`${where}.local_id must be a non-empty string`);
+      } else if (seen.has(p.local_id)) {
+        issues.push(`${where}.local_id ${p.local_id} is duplicated`);
+      } else {
+        seen.add(p.local_id);
+      }
+      for (const field of ['name', 'description', 'category_id', 'created_at', 'updated_at'] as const) {
+        if (typeof p[field] !== 'string') issues.push(`${where}.${field} must be a string`);
+      }
+      if (typeof p.price !== 'number' || !Number.isFinite(p.price) || p.price < 0) {
+        issues.push(`${where}.price must be a non-negative number`);
+      }
+      if (!PRODUCT_STATUSES.includes(p.status)) {
+        issues.push(`${where}.status must be one of ${PRODUCT_STATUSES.join(', ')}`);
+      }
+      if (!DELIVERY_TYPES.includes(p.delivery_type)) {
+        issues.push(`${where}.delivery_type must be one of ${DELIVERY_TYPES.join(', ')}`);
+      }
+      if (p.remote_id !== undefined && typeof p.remote_id !== 'string') {
+        issues.push(`${where}.remote_id must be a string`);
+      }
+      for (const field of ['sales', 'reviews', 'conflicts'] as const) {
+        if (p[field] !== undefined && !Array.isArray(p[field])) issues.push(`${where}.${field} must be an array`);
+      }
+      if (p.sync_error !== undefined
+        && (typeof p.sync_error?.message !== 'string' || typeof p.sync_error.attempts !== 'number')) {
+        issues.push(`${where}.sync_error must have a message and an attempt count`);
+      }
+      if (p.deliverable !== undefined
+        && (typeof p.deliverable?.source_path !== 'string' || typeof p.deliverable.archive_path !== 'string')) {
+        issues.push(`${where}.deliverable must have a source_path and an archive_path`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new StoreError(path, issues);
+  }
+}
+
+/**
+ * Parse, migrate and validate the contents of a store file
+ */
+export function parseStore(contents: string, path: string): { store: LocalStore; migrated: boolean } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(contents);
+  } catch (error) {
+    throw new StoreError(path, [`not valid JSON (${error instanceof Error ? error.message : error})`]);
+  }
+
+  const result = migrateStore(raw, path);
+  validateStore(result.store, path);
+  return result;
+}
+
+// =============================================================================
+// Concurrent Saves
+// =============================================================================
+
+/**
+ * Three-way merge of the store. `base` is the store as this process last
+ * read or wrote it, `theirs` what another process has saved since. Each
+ * record (product, library entry, profile, cursor) takes the side that
+ * changed it; when both did, ours wins. Sync history is append-only and
+ * combined.
+ */
+export function mergeStoreChanges(base: LocalStore, ours: LocalStore, theirs: LocalStore): LocalStore {
+  const seen = new Set(theirs.sync_history.map(entry => entry.id));
+
+  return {
+    ...ours,
+    profile: pick(base.profile, ours.profile, theirs.profile),
+    products: mergeRecords(base.products, ours.products, theirs.products, p => p.local_id),
+    library: ours.library || theirs.library
+      ? mergeRecords(base.library ?? [], ours.library ?? [], theirs.library ?? [], e => e.purchase_id)
+      : undefined,
+    sync_history: [...theirs.sync_history, ...ours.sync_history.filter(entry => !seen.has(entry.id))],
+    last_sync: pick(base.last_sync, ours.last_sync, theirs.last_sync),
+    pull_cursor: pick(base.pull_cursor, ours.pull_cursor, theirs.pull_cursor)
+  };
+}
+
+function pick<T>(base: T, ours: T, theirs: T): T {
+  return canonicalJson(ours) === canonicalJson(base) ? theirs : ours;
+}
+
+function mergeRecords<T>(base: T[], ours: T[], theirs: T[], key: (record: T) => string): T[] {
+  const baseById = new Map(base.map(r => [key(r), r]));
+  const oursById = new Map(ours.map(r => [key(r), r]));
+  const theirsById = new Map(theirs.map(r => [key(r), r]));
+  const ids = new Set([...ours.map(key), ...theirs.map(key)]);
+
+  const merged: T[] = [];
+  for (const id of ids) {
+    // A missing record on one side is a deletion (or was never there)
+    const record = pick(baseById.get(id), oursById.get(id), theirsById.get(id));
+    if (record !== undefined) merged.push(record);
+  }
+  return merged;
+}
+
+/**
+ * Compare dotted version strings numerically (-1, 0 or 1)
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(n => parseInt(n, 10) || 0);
+  const pb = b.split('.').map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
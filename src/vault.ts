@@ -0,0 +1,140 @@
+// =============================================================================
+// mcpSovereign SDK - Credential Vault
+// =============================================================================
+// Passphrase-protected storage for the bearer token, wallet address and
+// signing key. The passphrase is stretched with scrypt and the secrets are
+// sealed with AES-256-GCM, so a wrong passphrase or a tampered file fails
+// loudly instead of yielding garbage.
+//
+//   const vault = CredentialVault.create('correct horse battery staple');
+//   const blob = vault.seal({ authToken, walletAddress });
+//   const { secrets } = CredentialVault.unlock('correct horse battery staple', blob);
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface EncryptedBlob {
+  version: 1;
+  kdf: 'scrypt';
+  kdfParams: ScryptParams;
+  salt: string;        // base64
+  iv: string;          // base64, 12 bytes
+  tag: string;         // base64, GCM auth tag
+  ciphertext: string;  // base64
+}
+
+export interface VaultSecrets {
+  authToken: string | null;
+  walletAddress: string | null;
+  /** Contents of a wallet key file (see KeySigner.parse) */
+  signingKey?: string | null;
+}
+
+const DEFAULT_SCRYPT: ScryptParams = { N: 2 ** 15, r: 8, p: 1 };
+const KEY_LENGTH = 32;
+
+// =============================================================================
+// Credential Vault
+// =============================================================================
+
+export class CredentialVault {
+  private key: Buffer;
+  private salt: Buffer;
+  private params: ScryptParams;
+
+  private constructor(key: Buffer, salt: Buffer, params: ScryptParams) {
+    this.key = key;
+    this.salt = salt;
+    this.params = params;
+  }
+
+  /**
+   * Start a new vault with a fresh salt
+   */
+  static create(passphrase: string, params: ScryptParams = DEFAULT_SCRYPT): CredentialVault {
+    const salt = randomBytes(16);
+    return new CredentialVault(deriveKey(passphrase, salt, params), salt, params);
+  }
+
+  /**
+   * Open an existing vault. Throws on a wrong passphrase or tampered blob.
+   */
+  static unlock<T = VaultSecrets>(passphrase: string, blob: EncryptedBlob): { vault: CredentialVault; secrets: T } {
+    if (blob.version !== 1 || blob.kdf !== 'scrypt') {
+      throw new Error(`Unsupported vault format (version ${blob.version}, kdf ${blob.kdf})`);
+    }
+
+    const salt = Buffer.from(blob.salt, 'base64');
+    const vault = new CredentialVault(deriveKey(passphrase, salt, blob.kdfParams), salt, blob.kdfParams);
+    return { vault, secrets: vault.open<T>(blob) };
+  }
+
+  /**
+   * Encrypt secrets under this vault's key (new IV every time)
+   */
+  seal(secrets: unknown): EncryptedBlob {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+    return {
+      version: 1,
+      kdf: 'scrypt',
+      kdfParams: this.params,
+      salt: this.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    };
+  }
+
+  private open<T>(blob: EncryptedBlob): T {
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', this.key, Buffer.from(blob.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(blob.tag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(blob.ciphertext, 'base64')),
+        decipher.final()
+      ]);
+      return JSON.parse(plaintext.toString('utf-8')) as T;
+    } catch {
+      throw new Error('Wrong passphrase or corrupted vault');
+    }
+  }
+}
+
+// =============================================================================
+// One-shot helpers (credential exports)
+// =============================================================================
+
+export function encryptWithPassphrase(data: unknown, passphrase: string): EncryptedBlob {
+  return CredentialVault.create(passphrase).seal(data);
+}
+
+export function decryptWithPassphrase<T>(blob: EncryptedBlob, passphrase: string): T {
+  return CredentialVault.unlock<T>(passphrase, blob).secrets;
+}
+
+export function isEncryptedBlob(value: unknown): value is EncryptedBlob {
+  return !!value && typeof value === 'object'
+    && (value as EncryptedBlob).kdf === 'scrypt'
+    && typeof (value as EncryptedBlob).ciphertext === 'string';
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Buffer {
+  if (!passphrase) {
+    throw new Error('Passphrase must not be empty');
+  }
+  // scrypt needs 128 * N * r bytes; leave headroom over Node's 32 MB default
+  const maxmem = 256 * params.N * params.r;
+  return scryptSync(passphrase.normalize('NFKC'), salt, KEY_LENGTH, { ...params, maxmem });
+}
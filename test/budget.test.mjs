@@ -0,0 +1,114 @@
+// Credit budget guard and spend limits (user-007)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BudgetGuard, PricingTable } from '../dist/index.js';
+import { fakeApi, charged, fail, pricing, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const status = { last_sync: null, pending_remote: { purchases: 0, reviews: 0 }, last_pull: 'now' };
+
+function paidApi(credits = 50) {
+  return fakeApi({
+    'GET /pricing': () => pricing([['GET', '/sync/status', credits]]),
+    'GET /sync/status': () => charged(status, credits)
+  });
+}
+
+test('calls over the per-operation limit are refused before they are sent', async () => {
+  const dir = tempDir();
+  try {
+    const api = paidApi(50);
+    const client = makeClient(api, dir, { budget: { perOperation: 40 }, ledger: false });
+    const result = await client.getSyncStatus();
+    assert.equal(result.error.code, 'BUDGET_EXCEEDED');
+    assert.equal(api.count('GET', '/sync/status'), 0);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('charged credits count against the session limit', async () => {
+  const dir = tempDir();
+  try {
+    const api = paidApi(50);
+    const client = makeClient(api, dir, { budget: { perSession: 100 }, ledger: false });
+    assert.equal((await client.getSyncStatus()).success, true);
+    assert.equal((await client.getSyncStatus()).success, true);
+    assert.equal((await client.getSyncStatus()).error.code, 'BUDGET_EXCEEDED');
+    assert.equal(client.budget.getStatus().session.spent, 100);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('concurrent calls reserve their cost, so together they cannot overshoot', async () => {
+  const dir = tempDir();
+  try {
+    const api = paidApi(50);
+    const client = makeClient(api, dir, { budget: { perSession: 100 }, ledger: false });
+    const results = await Promise.all(Array.from({ length: 5 }, () => client.getSyncStatus()));
+    assert.equal(results.filter(r => r.success).length, 2);
+    assert.equal(results.filter(r => r.error?.code === 'BUDGET_EXCEEDED').length, 3);
+    assert.equal(api.count('GET', '/pricing'), 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('without a pricing table every non-free call is refused, paid GETs included', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({
+      'GET /pricing': fail(503, 'UNAVAILABLE'),
+      'GET /sync/status': charged(status, 50)
+    });
+    const client = makeClient(api, dir, { budget: { perSession: 1000 }, ledger: false, retry: false });
+
+    assert.equal((await client.getSyncStatus()).error.code, 'BUDGET_EXCEEDED');
+    assert.equal((await client.purchaseCredits({ packageId: 'starter' })).error.code, 'BUDGET_EXCEEDED');
+    assert.equal(api.count('GET', '/sync/status'), 0);
+    assert.equal(api.count('POST', '/credits/purchase'), 0);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('daily spend survives a restart through the ledger', async () => {
+  const dir = tempDir();
+  try {
+    const api = paidApi(60);
+    await makeClient(api, dir, { budget: { perDay: 100 } }).getSyncStatus();
+
+    const restarted = makeClient(api, dir, { budget: { perDay: 100 } });
+    assert.equal((await restarted.getSyncStatus()).error.code, 'BUDGET_EXCEEDED');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('warnings fire once when a limit is approached and when it is used up', () => {
+  const warnings = [];
+  const guard = new BudgetGuard({ perSession: 100, warnAt: 0.5, onWarning: w => warnings.push(w) });
+  guard.recordSpend(40);
+  guard.recordSpend(20);
+  guard.recordSpend(10);
+  guard.recordSpend(40);
+  assert.deepEqual(warnings.filter(w => w.window === 'session').map(w => w.spent), [60, 110]);
+});
+
+test('the pricing table matches parameterised paths', () => {
+  const table = new PricingTable({ products: [{ method: 'POST', path: '/api/v1/products/:id/purchase', credits: 5 }] });
+  assert.equal(table.predict('POST', '/products/abc/purchase'), 5);
+  assert.equal(table.predict('GET', '/products/abc/purchase'), 0);
+  assert.equal(table.predict('POST', '/products/abc/purchase/extra'), 0);
+});
+
+test('reservations are released exactly once', () => {
+  const guard = new BudgetGuard({ perSession: 100 });
+  guard.setPricing(new PricingTable({ all: [{ method: 'GET', path: '/x', credits: 60 }] }));
+  const release = guard.reserve(60);
+  assert.equal(guard.check('GET', '/x').allowed, false);
+  release();
+  release();
+  assert.equal(guard.check('GET', '/x').allowed, true);
+});
@@ -0,0 +1,101 @@
+// Versioned config schema and legacy migrations (user-014)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { AgentRuntime, CONFIG_VERSION, ConfigError, migrateConfig, readConfig } from '../dist/index.js';
+import { tempDir, removeDir } from './helpers/fake-api.mjs';
+
+function writeJson(path, value) {
+  writeFileSync(path, JSON.stringify(value));
+}
+
+test('a setup CLI config (snake_case) is upgraded in place', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'config.json');
+    writeJson(path, {
+      version: '1.0.0',
+      api_url: 'https://api.test/api/v1',
+      auth_token: 'token',
+      wallet_address: 'bc1qexample',
+      setup_complete: true,
+      created_at: '2025-01-01T00:00:00.000Z'
+    });
+
+    const config = await readConfig(path);
+    assert.equal(config.version, CONFIG_VERSION);
+    assert.equal(config.apiUrl, 'https://api.test/api/v1');
+    assert.equal(config.authToken, 'token');
+    assert.equal(config.walletAddress, 'bc1qexample');
+    assert.equal(config.setupComplete, true);
+    assert.equal(config.storePath, join(dir, 'store.json'));
+
+    const onDisk = JSON.parse(readFileSync(path, 'utf-8'));
+    assert.equal(onDisk.version, CONFIG_VERSION);
+    assert.equal(onDisk.auth_token, undefined);
+    assert.equal(statSync(path).mode & 0o777, 0o600);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a mixed legacy file prefers the runtime (camelCase) values', () => {
+  const { config, migrated } = migrateConfig({
+    apiUrl: 'https://runtime.test',
+    api_url: 'https://setup.test',
+    authToken: 'runtime-token',
+    auth_token: 'setup-token',
+    storePath: '/data/store.json',
+    onboarding_complete: true
+  }, '/config');
+
+  assert.equal(migrated, true);
+  assert.equal(config.apiUrl, 'https://runtime.test');
+  assert.equal(config.authToken, 'runtime-token');
+  assert.equal(config.storePath, '/data/store.json');
+  assert.equal(config.onboardingComplete, true);
+});
+
+test('current configs are read as they are', () => {
+  const { migrated } = migrateConfig({ version: CONFIG_VERSION, apiUrl: 'https://api.test' }, '/config');
+  assert.equal(migrated, false);
+});
+
+test('invalid and future configs are refused with every issue listed', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'config.json');
+
+    writeJson(path, { version: CONFIG_VERSION, apiUrl: 42, setupComplete: 'yes' });
+    await assert.rejects(readConfig(path), error => {
+      assert.ok(error instanceof ConfigError);
+      assert.deepEqual(error.issues, ['apiUrl must be a non-empty string', 'setupComplete must be a boolean']);
+      return true;
+    });
+
+    writeJson(path, { version: CONFIG_VERSION + 1 });
+    await assert.rejects(readConfig(path), /written by a newer SDK/);
+
+    writeFileSync(path, '{ not json');
+    await assert.rejects(readConfig(path), /not valid JSON/);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the runtime reads a config written by setup', async () => {
+  const dir = tempDir();
+  try {
+    writeJson(join(dir, 'config.json'), { version: '1.0.0', api_url: 'https://api.test/api/v1', auth_token: 'token' });
+
+    const runtime = new AgentRuntime({ configDir: dir });
+    await runtime.init();
+    assert.equal(runtime.getApiUrl(), 'https://api.test/api/v1');
+    assert.equal(runtime.getConfig().authToken, 'token');
+    assert.equal(runtime.getConfig().storePath, join(dir, 'store.json'));
+  } finally {
+    removeDir(dir);
+  }
+});
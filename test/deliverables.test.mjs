@@ -0,0 +1,135 @@
+// Deterministic deliverable packaging, hashing and re-validation (user-022)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, writeFileSync, readFileSync, statSync, utimesSync, existsSync, rmSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { LocalStoreManager, packageDeliverable, hashDeliverable, DELIVERABLE_ARCHIVE, PRODUCTS_DIR } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const draft = name => ({ name, description: '', category_id: 'skills', price: 5, delivery_type: 'download' });
+
+function skillDir(root) {
+  const dir = join(root, 'skill');
+  mkdirSync(join(dir, 'docs'), { recursive: true });
+  writeFileSync(join(dir, 'SKILL.md'), '# Review\n');
+  writeFileSync(join(dir, 'docs', 'usage.md'), 'Run it.\n');
+  return dir;
+}
+
+const sha256 = path => createHash('sha256').update(readFileSync(path)).digest('hex');
+
+test('archives are deterministic and their hash and size are reported', async () => {
+  const root = tempDir();
+  try {
+    const source = skillDir(root);
+    const first = await packageDeliverable(source, join(root, 'a.tar.gz'));
+
+    utimesSync(join(source, 'SKILL.md'), new Date(0), new Date(0));
+    mkdirSync(join(source, '.git'));
+    writeFileSync(join(source, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+    const second = await packageDeliverable(source, join(root, 'b.tar.gz'));
+
+    assert.equal(first.file_count, 2);
+    assert.equal(second.content_hash, first.content_hash);
+    assert.equal(first.content_hash, sha256(join(root, 'a.tar.gz')));
+    assert.equal(first.file_size_bytes, statSync(join(root, 'a.tar.gz')).size);
+    assert.deepEqual(await hashDeliverable(source, join(root, 'c.tar.gz')),
+      { content_hash: first.content_hash, file_size_bytes: first.file_size_bytes });
+    assert.equal(existsSync(join(root, 'c.tar.gz')), false);
+
+    writeFileSync(join(source, 'SKILL.md'), '# Review v2\n');
+    assert.notEqual((await hashDeliverable(source, join(root, 'a.tar.gz'))).content_hash, first.content_hash);
+  } finally {
+    removeDir(root);
+  }
+});
+
+test('an archive written inside its source is not packed into itself', async () => {
+  const root = tempDir();
+  try {
+    const source = skillDir(root);
+    const archive = join(source, 'out.tar.gz');
+    const first = await packageDeliverable(source, archive);
+    const second = await packageDeliverable(source, archive);
+    assert.equal(second.file_count, 2);
+    assert.equal(second.content_hash, first.content_hash);
+  } finally {
+    removeDir(root);
+  }
+});
+
+test('the package is attached to the product and repacked only when the source changes', async () => {
+  const root = tempDir();
+  try {
+    const source = skillDir(root);
+    const manager = new LocalStoreManager(join(root, 'store.json'));
+    const product = manager.createProduct(draft('Skill'));
+    const packaged = await manager.packageDeliverable(product.local_id, source);
+    manager.markReady(product.local_id);
+
+    const archive = packaged.deliverable.archive_path;
+    assert.equal(archive, join(root, 'deliverables', `${product.local_id}.tar.gz`));
+    assert.equal(packaged.content_hash, sha256(archive));
+
+    const packagedAt = packaged.deliverable.packaged_at;
+    assert.deepEqual(await manager.revalidateDeliverables(), []);
+    assert.equal(manager.getProduct(product.local_id).deliverable.packaged_at, packagedAt);
+
+    writeFileSync(join(source, 'SKILL.md'), '# Review v2\n');
+    assert.deepEqual(await manager.revalidateDeliverables(), []);
+    const repacked = manager.getProduct(product.local_id);
+    assert.notEqual(repacked.content_hash, packaged.content_hash);
+    assert.equal(repacked.content_hash, sha256(archive));
+  } finally {
+    removeDir(root);
+  }
+});
+
+test('push leaves out products whose deliverable is gone', async () => {
+  const root = tempDir();
+  try {
+    const api = fakeApi({
+      'POST /sync/push': () => ok({ sync_id: 's', timestamp: new Date().toISOString(), results: { created: [], updated: [], deleted: [], errors: [] } })
+    });
+    const client = makeClient(api, root);
+    await client.localStore.load();
+    const source = skillDir(root);
+    const product = client.localStore.createProduct(draft('Skill'));
+    const packaged = await client.localStore.packageDeliverable(product.local_id, source);
+    client.localStore.markReady(product.local_id);
+
+    rmSync(source, { recursive: true });
+    rmSync(packaged.deliverable.archive_path);
+    const result = await client.push('agent-1');
+
+    assert.equal(api.calls.at(-1).body.manifest.products[0].action, 'unchanged');
+    assert.match(result.warnings[0], /^Not pushed, fix its deliverable first: /);
+    assert.match(client.localStore.getProduct(product.local_id).sync_error.message, /Deliverable not found/);
+  } finally {
+    removeDir(root);
+  }
+});
+
+test('directory stores keep the archive in the product folder, ignored by git', async () => {
+  const root = tempDir();
+  try {
+    const storeDir = join(root, 'store');
+    mkdirSync(storeDir);
+    const manager = new LocalStoreManager(storeDir);
+    await manager.load();
+    const product = manager.createProduct(draft('Skill'));
+    const packaged = await manager.packageDeliverable(product.local_id, skillDir(root));
+    await manager.save();
+
+    assert.equal(packaged.deliverable.archive_path, join(storeDir, PRODUCTS_DIR, product.local_id, DELIVERABLE_ARCHIVE));
+    assert.ok(readFileSync(join(storeDir, '.gitignore'), 'utf-8').includes(`${PRODUCTS_DIR}/*/${DELIVERABLE_ARCHIVE}`));
+
+    manager.deleteProduct(product.local_id);
+    await manager.save();
+    assert.equal(existsSync(join(storeDir, PRODUCTS_DIR, product.local_id)), false);
+  } finally {
+    removeDir(root);
+  }
+});
@@ -0,0 +1,153 @@
+// Verified buyer downloads into a purchase library (user-023)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const FILE = Buffer.from('tar.gz bytes of the deliverable');
+const FILE_HASH = createHash('sha256').update(FILE).digest('hex');
+
+function purchase(overrides = {}) {
+  return {
+    id: 'buy-1',
+    product_id: 'prod-1',
+    product_name: 'Pack',
+    buyer_id: 'agent-1',
+    seller_id: 'seller-1',
+    price_paid: '5',
+    platform_fee: '0',
+    seller_received: '5',
+    delivery_status: 'delivered',
+    download_token: 'token-1',
+    download_expires_at: new Date(Date.now() + 7 * 86_400_000).toISOString(),
+    download_count: 0,
+    max_downloads: 5,
+    purchased_at: '2025-01-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+function store({ body = FILE, published = { content_hash: FILE_HASH, file_size_bytes: FILE.length }, buyer = purchase(), file } = {}) {
+  return fakeApi({
+    'GET /products/my/purchases': () => ok([buyer]),
+    [`GET /products/${buyer.product_id}`]: () => ok({ id: buyer.product_id, reviews: [], ...published }),
+    'GET /products/download/token-1': () => ok({
+      productName: 'Pack',
+      deliveryType: 'download',
+      payload: { url: 'https://files.test/pack.tar.gz' },
+      downloadsRemaining: 4
+    }),
+    'GET /pack.tar.gz': file ?? (() => new Response(body))
+  });
+}
+
+test('a download that matches the published hash is saved per purchase and recorded', async () => {
+  const dir = tempDir();
+  try {
+    const api = store();
+    const client = makeClient(api, dir, { authToken: 'secret' });
+    await client.localStore.load();
+
+    const result = await client.downloadAndSave('buy-1', join(dir, 'library'));
+    assert.equal(result.success, true);
+    const saved = join(dir, 'library', 'buy-1', 'pack.tar.gz');
+    assert.deepEqual(readFileSync(saved), FILE);
+    assert.equal(result.data.download.path, saved);
+    assert.equal(result.data.download.verified, true);
+    assert.equal(result.data.download.content_hash, FILE_HASH);
+    assert.equal(client.localStore.getLibraryEntry('buy-1').download_count, 1);
+
+    // The bearer token stays with the API's own origin
+    assert.equal(api.calls.at(-1).headers['Authorization'], undefined);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('tampered or truncated downloads are rejected and deleted', async () => {
+  for (const body of [Buffer.from('tar.gz bytes of the deliverablX'), FILE.subarray(0, 10)]) {
+    const dir = tempDir();
+    try {
+      const client = makeClient(store({ body }), dir);
+      await client.localStore.load();
+
+      const result = await client.downloadAndSave('buy-1', join(dir, 'library'));
+      assert.equal(result.error.code, 'INTEGRITY_CHECK_FAILED');
+      assert.deepEqual(readdirSync(join(dir, 'library', 'buy-1')), []);
+      assert.equal(client.localStore.getLibraryEntry('buy-1').download, undefined);
+    } finally {
+      removeDir(dir);
+    }
+  }
+});
+
+test('products without a published hash need allowUnverified', async () => {
+  const dir = tempDir();
+  try {
+    const client = makeClient(store({ published: {} }), dir);
+    await client.localStore.load();
+
+    assert.equal((await client.downloadAndSave('buy-1', dir)).error.code, 'UNVERIFIABLE');
+    const result = await client.downloadAndSave('buy-1', dir, { allowUnverified: true });
+    assert.equal(result.success, true);
+    assert.equal(result.data.download.verified, false);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('purchase and product IDs that are not safe folder names are refused', async () => {
+  for (const buyer of [purchase({ id: '../../escape' }), purchase({ product_id: '../prod' })]) {
+    const dir = tempDir();
+    try {
+      const api = store({ buyer });
+      const client = makeClient(api, dir);
+      await client.localStore.load();
+
+      const result = await client.downloadAndSave(buyer.id, join(dir, 'library'));
+      assert.equal(result.error.code, 'INVALID_PURCHASE');
+      assert.equal(api.count('GET', '/pack.tar.gz'), 0);
+      assert.equal(existsSync(join(dir, 'library')), false);
+    } finally {
+      removeDir(dir);
+    }
+  }
+});
+
+test('a stalled download times out', async () => {
+  const dir = tempDir();
+  try {
+    const stalled = () => new Response(new ReadableStream({
+      start(controller) { controller.enqueue(FILE.subarray(0, 4)); }
+    }));
+    const client = makeClient(store({ file: stalled }), dir);
+    await client.localStore.load();
+
+    const result = await client.downloadAndSave('buy-1', dir, { timeoutMs: 50 });
+    assert.equal(result.error.code, 'TIMEOUT');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a failed download response has its body cancelled', async () => {
+  const dir = tempDir();
+  try {
+    let cancelled = false;
+    const missing = () => new Response(new ReadableStream({
+      pull() {},
+      cancel() { cancelled = true; }
+    }), { status: 404 });
+    const client = makeClient(store({ file: missing }), dir);
+    await client.localStore.load();
+
+    const result = await client.downloadAndSave('buy-1', dir);
+    assert.equal(result.error.code, 'DOWNLOAD_FAILED');
+    assert.equal(cancelled, true);
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,115 @@
+// Dry-run cost estimates for push, pull and purchases (user-009)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeApi, ok, fail, pricing, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const MUTATING = ['POST /sync/push', 'POST /sync/pull', 'POST /products/prod-1/purchase', 'POST /plots/purchase', 'POST /plots/plot-1/rent'];
+
+function marketplace(overrides = {}) {
+  const routes = {
+    'GET /pricing': () => pricing([
+      ['POST', '/sync/push', 50],
+      ['POST', '/sync/pull', 10],
+      ['POST', '/products/:id/purchase', 2],
+      ['POST', '/plots/purchase', 5],
+      ['POST', '/plots/:id/rent', 1]
+    ]),
+    'GET /credits/balance': () => ok({ balance: '1000', last_updated: 'now' }),
+    'GET /products/prod-1': () => ok({ id: 'prod-1', price: 300, reviews: [] }),
+    'GET /plots/plot-1': () => ok({ id: 'plot-1', purchase_price: 400, rent_amount: 30 }),
+    ...overrides
+  };
+  for (const route of MUTATING) {
+    routes[route] = () => { throw new Error(`dry run called ${route}`); };
+  }
+  return fakeApi(routes);
+}
+
+function assertNothingMutated(api) {
+  for (const route of MUTATING) {
+    const [method, path] = route.split(' ');
+    assert.equal(api.count(method, path), 0, route);
+  }
+}
+
+test('push dry run returns the manifest, fee and projected balance', async () => {
+  const dir = tempDir();
+  try {
+    const api = marketplace();
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+    const product = client.localStore.createProduct({ name: 'Pack', description: 'd', category_id: 'prompts', price: 25, delivery_type: 'download' });
+    client.localStore.markReady(product.local_id);
+
+    const result = await client.push('agent-1', { dryRun: true });
+    assert.equal(result.success, true);
+    assert.equal(result.data.dry_run, true);
+    assert.equal(result.data.manifest.agent_id, 'agent-1');
+    assert.deepEqual(result.data.manifest.products.map(p => p.action), ['create']);
+    assert.equal(result.data.fee, 50);
+    assert.equal(result.data.predicted_cost, 50);
+    assert.equal(result.data.current_balance, 1000);
+    assert.equal(result.data.projected_balance, 950);
+    assertNothingMutated(api);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('purchase, plot and rent estimates add the item cost to the fee', async () => {
+  const dir = tempDir();
+  try {
+    const api = marketplace();
+    const client = makeClient(api, dir);
+
+    const product = await client.purchaseProduct('prod-1', { dryRun: true });
+    assert.deepEqual([product.data.fee, product.data.item_cost, product.data.projected_balance], [2, 300, 698]);
+
+    const plot = await client.purchasePlot('plot-1', { dryRun: true });
+    assert.deepEqual([plot.data.fee, plot.data.item_cost, plot.data.predicted_cost], [5, 400, 405]);
+
+    const rent = await client.payRent('plot-1', 3, { dryRun: true });
+    assert.deepEqual([rent.data.fee, rent.data.item_cost, rent.data.predicted_cost], [1, 90, 91]);
+
+    const pull = await client.pull(null, { dryRun: true });
+    assert.equal(pull.data.predicted_cost, 10);
+    assertNothingMutated(api);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('an estimate still comes back when pricing and balance are unavailable', async () => {
+  const dir = tempDir();
+  try {
+    const api = marketplace({
+      'GET /pricing': () => fail(503, 'UNAVAILABLE'),
+      'GET /credits/balance': () => fail(401, 'UNAUTHORIZED')
+    });
+    const client = makeClient(api, dir, { retry: false });
+
+    const result = await client.pull(null, { dryRun: true });
+    assert.equal(result.success, true);
+    assert.equal(result.data.pricing_available, false);
+    assert.equal(result.data.current_balance, null);
+    assert.equal(result.data.projected_balance, null);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('with a budget configured the estimate carries the budget check', async () => {
+  const dir = tempDir();
+  try {
+    const api = marketplace();
+    const client = makeClient(api, dir, { budget: { perOperation: 100 }, ledger: false });
+
+    const result = await client.purchaseProduct('prod-1', { dryRun: true });
+    assert.equal(result.data.budget.allowed, false);
+    assert.equal(result.data.budget.predictedCost, 302);
+    assertNothingMutated(api);
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,86 @@
+// Typed error hierarchy (user-005)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  SovereignError,
+  InsufficientCreditsError,
+  AuthExpiredError,
+  RateLimitedError,
+  ValidationError,
+  NotFoundError,
+  NetworkError,
+  TimeoutError,
+  toSovereignError,
+  unwrap,
+  isSovereignError
+} from '../dist/index.js';
+import { fakeApi, fail, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const failure = (code, status, extra = {}) => ({
+  success: false,
+  data: null,
+  status,
+  error: { code, message: `${code} happened`, ...extra }
+});
+
+test('API codes and statuses map onto error classes', () => {
+  const cases = [
+    [failure('INSUFFICIENT_BALANCE', 402, { required: 50 }), InsufficientCreditsError, 'INSUFFICIENT_CREDITS'],
+    [failure('WHATEVER', 401), AuthExpiredError, 'AUTH_EXPIRED'],
+    [failure('TOO_MANY_REQUESTS', 429), RateLimitedError, 'RATE_LIMITED'],
+    [failure('INVALID_INPUT', 400), ValidationError, 'VALIDATION_FAILED'],
+    [failure('PRODUCT_NOT_FOUND', 404), NotFoundError, 'NOT_FOUND'],
+    [failure('NETWORK_ERROR'), NetworkError, 'NETWORK_ERROR'],
+    [failure('ABORTED'), NetworkError, 'ABORTED'],
+    [failure('TIMEOUT'), TimeoutError, 'TIMEOUT'],
+    [failure('SOMETHING_ELSE', 500), SovereignError, 'API_ERROR']
+  ];
+
+  for (const [response, ErrorClass, code] of cases) {
+    const error = toSovereignError(response);
+    assert.ok(error instanceof ErrorClass, `${response.error.code} -> ${ErrorClass.name}`);
+    assert.equal(error.code, code);
+    assert.equal(error.apiCode, response.error.code);
+    assert.equal(error.name, ErrorClass.name);
+    assert.ok(isSovereignError(error));
+  }
+});
+
+test('errors keep the details callers need', () => {
+  assert.equal(toSovereignError(failure('INSUFFICIENT_CREDITS', 402, { required: 50 })).required, 50);
+  assert.equal(toSovereignError({ ...failure('RATE_LIMITED', 429), retryAfterMs: 2000 }).retryAfterMs, 2000);
+
+  const validation = toSovereignError(failure('VALIDATION_FAILED', 422, { details: { price: 'must be positive' } }));
+  assert.deepEqual(validation.fields, [{ field: 'price', message: 'must be positive' }]);
+});
+
+test('unwrap returns data or throws the typed error', () => {
+  assert.equal(unwrap({ success: true, data: 42 }), 42);
+  assert.throws(() => unwrap(failure('NOT_FOUND', 404)), NotFoundError);
+});
+
+test('throwOnError makes client calls throw typed errors', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /products/p1': fail(404, 'PRODUCT_NOT_FOUND', 'No such product') });
+    const client = makeClient(api, dir, { throwOnError: true });
+    await assert.rejects(client.getProductDetails('p1'), error =>
+      error instanceof NotFoundError && error.status === 404 && error.message === 'No such product'
+    );
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('without throwOnError failures are returned', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /products/p1': fail(404, 'PRODUCT_NOT_FOUND') });
+    const result = await makeClient(api, dir).getProductDetails('p1');
+    assert.equal(result.success, false);
+    assert.equal(result.error.code, 'PRODUCT_NOT_FOUND');
+  } finally {
+    removeDir(dir);
+  }
+});
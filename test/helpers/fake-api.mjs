@@ -0,0 +1,93 @@
+// A scripted stand-in for the marketplace API, handed to SovereignClient as
+// its `fetch`. Routes are keyed "METHOD /path" (query string excluded) and
+// return a Response, or a plain object that is sent as the JSON body.
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SovereignClient } from '../../dist/index.js';
+
+export const BASE_URL = 'https://api.test/api/v1';
+
+export function fakeApi(routes = {}) {
+  const calls = [];
+
+  const fetch = async (url, init = {}) => {
+    const parsed = new URL(url);
+    const call = {
+      method: init.method ?? 'GET',
+      path: parsed.pathname.replace(/^\/api\/v1/, ''),
+      query: parsed.searchParams,
+      headers: init.headers ?? {},
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+      signal: init.signal
+    };
+    calls.push(call);
+
+    const route = routes[`${call.method} ${call.path}`];
+    if (!route) {
+      return fail(404, 'NOT_FOUND', `No route for ${call.method} ${call.path}`);
+    }
+    const reply = typeof route === 'function' ? await route(call, calls) : route;
+    return reply instanceof Response ? reply : json(reply);
+  };
+
+  const count = (method, path) => calls.filter(c => c.method === method && c.path === path).length;
+  return { fetch, calls, count };
+}
+
+export function json(body, { status = 200, headers = {} } = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+export function ok(data, headers = {}) {
+  return json({ success: true, data }, { headers });
+}
+
+export function fail(status, code, message = code, headers = {}) {
+  return json({ success: false, data: null, error: { code, message } }, { status, headers });
+}
+
+// Charged responses carry the billing headers the client reads
+export function charged(data, credits, remaining = 1000) {
+  return ok(data, { 'X-Credits-Charged': String(credits), 'X-Credits-Remaining': String(remaining) });
+}
+
+export function pricing(entries) {
+  return ok({
+    pricing: { all: entries.map(([method, path, credits]) => ({ method, path, credits, description: '' })) },
+    summary: { free_endpoints: 0, paid_endpoints: entries.length, average_cost: 0, most_expensive: 0 },
+    notes: []
+  });
+}
+
+export function tempDir() {
+  return mkdtempSync(join(tmpdir(), 'sovereign-test-'));
+}
+
+export function removeDir(dir) {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+// A client against `api` with its store in `dir` and near-instant retries
+export function makeClient(api, dir, config = {}) {
+  const { retry, ...rest } = config;
+  return new SovereignClient({
+    baseUrl: BASE_URL,
+    fetch: api.fetch,
+    localStorePath: join(dir, 'store.json'),
+    retry: retry === false ? false : { baseDelayMs: 1, maxDelayMs: 5, ...retry },
+    ...rest
+  });
+}
+
+// AgentRuntime builds its own clients, which fall back to the global fetch.
+// Returns a function that puts the real one back.
+export function installFetch(api) {
+  const original = globalThis.fetch;
+  globalThis.fetch = api.fetch;
+  return () => { globalThis.fetch = original; };
+}
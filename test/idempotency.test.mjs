@@ -0,0 +1,98 @@
+// Idempotency keys for credit-spending calls (user-002)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { IdempotencyKeyStore } from '../dist/index.js';
+import { fakeApi, ok, fail, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const invoice = { id: 'inv_1', amount: 100 };
+
+test('a paid call sends an Idempotency-Key and releases it after a definitive answer', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'POST /credits/purchase': () => ok(invoice) });
+    const client = makeClient(api, dir);
+    await client.purchaseCredits({ packageId: 'starter' });
+
+    assert.match(api.calls[0].headers['Idempotency-Key'], /^[0-9a-f-]{36}$/);
+    assert.deepEqual(await client.idempotencyKeys.getPending(), {});
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('after an ambiguous failure the next attempt, even from a new process, reuses the key', async () => {
+  const dir = tempDir();
+  try {
+    let attempts = 0;
+    const api = fakeApi({
+      'POST /credits/purchase': () => {
+        if (++attempts === 1) throw new TypeError('socket hang up');
+        return ok(invoice);
+      }
+    });
+
+    const first = await makeClient(api, dir, { retry: false }).purchaseCredits({ packageId: 'starter' });
+    assert.equal(first.error.code, 'NETWORK_ERROR');
+
+    const second = await makeClient(api, dir, { retry: false }).purchaseCredits({ packageId: 'starter' });
+    assert.equal(second.success, true);
+    assert.equal(api.calls[1].headers['Idempotency-Key'], api.calls[0].headers['Idempotency-Key']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a rejected call forgets its key so the next attempt is a new operation', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'POST /credits/purchase': () => fail(400, 'VALIDATION_FAILED') });
+    const client = makeClient(api, dir);
+    await client.purchaseCredits({ packageId: 'starter' });
+    await client.purchaseCredits({ packageId: 'starter' });
+    assert.notEqual(api.calls[1].headers['Idempotency-Key'], api.calls[0].headers['Idempotency-Key']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('different operations get different keys', async () => {
+  const dir = tempDir();
+  try {
+    const store = new IdempotencyKeyStore(join(dir, 'store.json'));
+    assert.notEqual(await store.acquire('purchaseProduct:a'), await store.acquire('purchaseProduct:b'));
+    assert.equal(await store.acquire('purchaseProduct:a'), (await store.getPending())['purchaseProduct:a'].key);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('concurrent writers sharing the file keep each other\'s keys', async () => {
+  const dir = tempDir();
+  try {
+    const storePath = join(dir, 'store.json');
+    const writers = Array.from({ length: 8 }, () => new IdempotencyKeyStore(storePath));
+    const keys = await Promise.all(writers.map((store, i) => store.acquire(`op:${i}`)));
+
+    const pending = await new IdempotencyKeyStore(storePath).getPending();
+    assert.deepEqual(Object.keys(pending).sort(), writers.map((_, i) => `op:${i}`).sort());
+    keys.forEach((key, i) => assert.equal(pending[`op:${i}`].key, key));
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the file is removed once nothing is pending', async () => {
+  const dir = tempDir();
+  try {
+    const store = new IdempotencyKeyStore(join(dir, 'store.json'));
+    await store.acquire('op');
+    assert.ok(existsSync(store.getPath()));
+    await store.release('op');
+    assert.ok(!existsSync(store.getPath()));
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,144 @@
+// JWT expiry detection and automatic token refresh (user-011)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentRuntime, decodeJwtPayload, getJwtExpiry } from '../dist/index.js';
+import { fakeApi, ok, fail, makeClient, BASE_URL, installFetch, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+function jwt(claims) {
+  const part = value => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${part({ alg: 'HS256', typ: 'JWT' })}.${part(claims)}.signature`;
+}
+
+const inSeconds = seconds => Math.floor(Date.now() / 1000) + seconds;
+const bearer = call => call.headers['Authorization'];
+
+function balanceApi(validToken) {
+  return fakeApi({
+    'GET /credits/balance': call => bearer(call) === `Bearer ${validToken}`
+      ? ok({ balance: '10', last_updated: 'now' })
+      : fail(401, 'UNAUTHORIZED', 'Token expired')
+  });
+}
+
+test('expiry is read from the exp claim', () => {
+  const exp = inSeconds(3600);
+  assert.equal(getJwtExpiry(jwt({ sub: 'agent', exp })).getTime(), exp * 1000);
+  assert.equal(decodeJwtPayload(jwt({ sub: 'agent' })).sub, 'agent');
+  assert.equal(getJwtExpiry(jwt({ sub: 'agent' })), null);
+  assert.equal(getJwtExpiry('not-a-jwt'), null);
+  assert.equal(decodeJwtPayload('a.!!!.c'), null);
+});
+
+test('a token close to expiry is refreshed before the call', async () => {
+  const dir = tempDir();
+  try {
+    const fresh = jwt({ exp: inSeconds(3600) });
+    const api = balanceApi(fresh);
+    let refreshes = 0;
+    const client = makeClient(api, dir, {
+      authToken: jwt({ exp: inSeconds(60) }),
+      refreshAuth: async () => { refreshes++; return fresh; }
+    });
+
+    assert.equal((await client.getBalance()).success, true);
+    assert.equal(refreshes, 1);
+    assert.equal(api.calls.length, 1);
+    assert.equal(client.getTokenExpiry().getTime(), getJwtExpiry(fresh).getTime());
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a 401 refreshes the token and replays the call once', async () => {
+  const dir = tempDir();
+  try {
+    const fresh = jwt({ exp: inSeconds(3600) });
+    const api = balanceApi(fresh);
+    let refreshes = 0;
+    const revoked = jwt({ exp: inSeconds(3600), revoked: true });
+    const client = makeClient(api, dir, {
+      authToken: revoked,
+      refreshAuth: async () => { refreshes++; return fresh; }
+    });
+
+    assert.equal((await client.getBalance()).success, true);
+    assert.equal(refreshes, 1);
+    assert.deepEqual(api.calls.map(bearer), [`Bearer ${revoked}`, `Bearer ${fresh}`]);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a failed refresh leaves the 401 in place without a replay', async () => {
+  const dir = tempDir();
+  try {
+    const api = balanceApi('never');
+    const client = makeClient(api, dir, {
+      authToken: jwt({ exp: inSeconds(3600) }),
+      refreshAuth: async () => { throw new Error('signer unavailable'); }
+    });
+
+    const result = await client.getBalance();
+    assert.equal(result.status, 401);
+    assert.equal(api.calls.length, 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('concurrent calls share a single refresh', async () => {
+  const dir = tempDir();
+  try {
+    const fresh = jwt({ exp: inSeconds(3600) });
+    const api = balanceApi(fresh);
+    let refreshes = 0;
+    const client = makeClient(api, dir, {
+      authToken: jwt({ exp: inSeconds(-10) }),
+      refreshAuth: async () => {
+        refreshes++;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return fresh;
+      }
+    });
+
+    const results = await Promise.all([client.getBalance(), client.getBalance(), client.getBalance()]);
+    assert.ok(results.every(r => r.success));
+    assert.equal(refreshes, 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the auth handshake never triggers a refresh', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'POST /auth/challenge': () => fail(401, 'UNAUTHORIZED') });
+    let refreshes = 0;
+    const client = makeClient(api, dir, {
+      authToken: jwt({ exp: inSeconds(-10) }),
+      refreshAuth: async () => { refreshes++; return null; }
+    });
+
+    await client.authenticate('bc1qexample', async () => 'signature');
+    assert.equal(refreshes, 0);
+    assert.equal(api.calls.length, 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the runtime takes the expiry of loaded credentials from the token', async () => {
+  const dir = tempDir();
+  const restore = installFetch(fakeApi({ 'GET /auth/me': () => ok({ id: 'agent-1', display_name: null, trade: null }) }));
+  try {
+    const runtime = new AgentRuntime({ configDir: dir, apiUrl: BASE_URL });
+    const exp = inSeconds(-60);
+    assert.equal(await runtime.loadCredentials({ token: jwt({ exp }), walletAddress: 'bc1qexample' }), true);
+    assert.equal(runtime.getTokenExpiry().getTime(), exp * 1000);
+    assert.equal(runtime.isAuthenticated(), false);
+  } finally {
+    restore();
+    removeDir(dir);
+  }
+});
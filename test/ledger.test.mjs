@@ -0,0 +1,119 @@
+// Local credit spend ledger and reconciliation (user-008)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { CreditLedger } from '../dist/index.js';
+import { fakeApi, ok, charged, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const status = { last_sync: null, pending_remote: { purchases: 0, reviews: 0 }, last_pull: 'now' };
+
+function debit(amount, balanceAfter, createdAt) {
+  return {
+    id: `t${balanceAfter}`,
+    type: 'api_call',
+    amount: String(-amount),
+    balance_after: String(balanceAfter),
+    reference_type: null,
+    reference_id: null,
+    created_at: createdAt
+  };
+}
+
+test('charged calls are appended to the ledger next to the store', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /sync/status': () => charged(status, 5, 95) });
+    const client = makeClient(api, dir);
+    await client.getSyncStatus();
+    await client.getSyncStatus();
+
+    assert.equal(client.ledger.getPath(), join(dir, 'store.ledger.jsonl'));
+    const entries = await client.ledger.getEntries();
+    assert.deepEqual(entries.map(e => [e.method, e.endpoint, e.credits, e.balance_after]), [
+      ['GET', '/sync/status', 5, 95],
+      ['GET', '/sync/status', 5, 95]
+    ]);
+    assert.deepEqual(await client.ledger.spendByEndpoint(), { 'GET /sync/status': 10 });
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a ledger that cannot be written turns into a response warning', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /sync/status': () => charged(status, 5) });
+    const client = makeClient(api, dir, { ledger: { path: join(dir, 'missing', 'ledger.jsonl') } });
+    const result = await client.getSyncStatus();
+
+    assert.equal(result.success, true);
+    assert.equal(result.warnings.length, 1);
+    assert.match(result.warnings[0], /^Credit ledger not written: /);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('reconcile matches by balance and reports both kinds of gap', async () => {
+  const dir = tempDir();
+  try {
+    const ledger = new CreditLedger(join(dir, 'ledger.jsonl'));
+    await ledger.record({ method: 'GET', endpoint: '/sync/status', credits: 5, balance_after: 95, timestamp: '2025-01-01T10:00:00.000Z' });
+    await ledger.record({ method: 'POST', endpoint: '/sync/push', credits: 10, balance_after: 85, timestamp: '2025-01-01T11:00:00.000Z' });
+    await ledger.record({ method: 'POST', endpoint: '/sync/push', credits: 10, balance_after: 60, timestamp: '2025-01-01T13:00:00.000Z' });
+
+    const report = await ledger.reconcile([
+      debit(5, 95, '2025-01-01T10:00:01.000Z'),
+      debit(12, 85, '2025-01-01T11:00:01.000Z'),
+      debit(15, 70, '2025-01-01T12:00:00.000Z'),
+      { ...debit(0, 500, '2025-01-01T12:30:00.000Z'), amount: '500', type: 'purchase' }
+    ]);
+
+    assert.equal(report.ledger_entries, 3);
+    assert.equal(report.remote_transactions, 3);
+    assert.equal(report.matched, 1);
+    assert.deepEqual(report.discrepancies.map(d => d.type), ['amount_mismatch', 'missing_remote', 'missing_local']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('reconcileLedger pages through history back to the oldest entry', async () => {
+  const dir = tempDir();
+  try {
+    const now = Date.now();
+    const at = minutesAgo => new Date(now - minutesAgo * 60_000).toISOString();
+    const history = [debit(5, 90, at(1)), debit(5, 95, at(2)), debit(5, 100, at(60)), debit(5, 105, at(120))];
+    const api = fakeApi({
+      'GET /credits/history': call => {
+        const page = Number(call.query.get('page'));
+        const limit = 2;  // Server default page size
+        return ok({
+          transactions: history.slice((page - 1) * limit, page * limit),
+          pagination: { page, limit, total: history.length, total_pages: Math.ceil(history.length / limit) }
+        });
+      }
+    });
+    const client = makeClient(api, dir);
+    await client.ledger.record({ method: 'GET', endpoint: '/sync/status', credits: 5, balance_after: 95, timestamp: at(2) });
+    await client.ledger.record({ method: 'GET', endpoint: '/sync/status', credits: 5, balance_after: 90, timestamp: at(1) });
+
+    const result = await client.reconcileLedger();
+    assert.equal(result.success, true);
+    assert.equal(result.data.matched, 2);
+    assert.deepEqual(result.data.discrepancies, []);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('reconcileLedger refuses when the ledger is disabled', async () => {
+  const dir = tempDir();
+  try {
+    const client = makeClient(fakeApi(), dir, { ledger: false });
+    assert.equal((await client.reconcileLedger()).error.code, 'LEDGER_DISABLED');
+  } finally {
+    removeDir(dir);
+  }
+});
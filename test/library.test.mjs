@@ -0,0 +1,120 @@
+// Persistent purchase library, token expiry warnings and re-downloads (user-024)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LocalStoreManager } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const HOUR = 3_600_000;
+const NOW = new Date('2025-06-01T12:00:00.000Z');
+const at = offsetMs => new Date(NOW.getTime() + offsetMs).toISOString();
+
+function purchase(id, overrides = {}) {
+  return {
+    id,
+    product_id: `prod-${id}`,
+    product_name: `Product ${id}`,
+    buyer_id: 'agent-1',
+    seller_id: 'seller-1',
+    price_paid: '5',
+    platform_fee: '0',
+    seller_received: '5',
+    delivery_status: 'delivered',
+    download_token: `token-${id}`,
+    download_expires_at: at(7 * 24 * HOUR),
+    download_count: 0,
+    max_downloads: 5,
+    purchased_at: '2025-05-01T00:00:00.000Z',
+    ...overrides
+  };
+}
+
+test('syncing the library adds new purchases and keeps local download records', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  assert.deepEqual(manager.syncLibrary([purchase('a'), purchase('b')]), { added: 2, updated: 0 });
+
+  const download = { path: '/lib/a/file', content_hash: 'h', file_size_bytes: 1, verified: true, downloaded_at: at(0) };
+  manager.recordDownload('a', download);
+  assert.deepEqual(manager.syncLibrary([purchase('a', { download_count: 2 })]), { added: 0, updated: 1 });
+
+  const entry = manager.getLibraryEntry('a');
+  assert.equal(entry.download_count, 2);
+  assert.deepEqual(entry.download, download);
+  assert.equal(manager.getLibrary().length, 2);
+});
+
+test('warnings cover expiring and expired tokens and running out of downloads', () => {
+  const manager = new LocalStoreManager('/unused/store.json', { expiryWarningMs: 24 * HOUR, lowDownloadsAt: 1 });
+  manager.syncLibrary([
+    purchase('fine'),
+    purchase('expiring', { download_expires_at: at(2 * HOUR) }),
+    purchase('expired', { download_expires_at: at(-HOUR) }),
+    purchase('low', { download_count: 4 }),
+    purchase('used-up', { download_count: 5 }),
+    purchase('refunded', { delivery_status: 'refunded', download_expires_at: at(-HOUR) })
+  ]);
+
+  assert.deepEqual(manager.getLibraryWarnings(NOW).map(w => [w.purchase_id, w.kind]), [
+    ['expiring', 'expiring'],
+    ['expired', 'expired'],
+    ['low', 'downloads_low'],
+    ['used-up', 'downloads_exhausted']
+  ]);
+});
+
+test('the client library sync saves the store and returns the warnings', async () => {
+  const dir = tempDir();
+  try {
+    const soon = new Date(Date.now() + HOUR).toISOString();
+    const api = fakeApi({ 'GET /products/my/purchases': () => ok([purchase('a', { download_expires_at: soon })]) });
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+
+    const result = await client.syncLibrary();
+    assert.equal(result.data.added, 1);
+    assert.deepEqual(result.data.warnings.map(w => w.kind), ['expiring']);
+    const saved = JSON.parse(readFileSync(join(dir, 'store.json'), 'utf-8'));
+    assert.deepEqual(saved.library.map(e => e.purchase_id), ['a']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('redownload uses the stored token and refreshes it once expired', async () => {
+  const dir = tempDir();
+  try {
+    const tomorrow = new Date(Date.now() + 24 * HOUR).toISOString();
+    let token = 'token-old';
+    const payload = call => ok({
+      productName: 'Product a',
+      deliveryType: 'download',
+      payload: { url: `https://files.test/${call.path.split('/').pop()}` },
+      downloadsRemaining: 3
+    });
+    const api = fakeApi({
+      'GET /products/my/purchases': () => ok([purchase('a', { download_token: token, download_expires_at: tomorrow })]),
+      'GET /products/download/token-old': payload,
+      'GET /products/download/token-new': payload
+    });
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+    client.localStore.syncLibrary([purchase('a', { download_token: 'token-old', download_expires_at: tomorrow })]);
+
+    const first = await client.redownload('a');
+    assert.equal(first.data.payload.url, 'https://files.test/token-old');
+    assert.equal(api.count('GET', '/products/my/purchases'), 0);
+    assert.equal(client.localStore.getLibraryEntry('a').download_count, 2);
+
+    token = 'token-new';
+    client.localStore.syncLibrary([purchase('a', { download_token: 'token-old', download_expires_at: new Date(Date.now() - HOUR).toISOString() })]);
+    const second = await client.redownload('a');
+    assert.equal(second.data.payload.url, 'https://files.test/token-new');
+    assert.equal(api.count('GET', '/products/my/purchases'), 1);
+
+    assert.equal((await client.redownload('unknown')).error.code, 'NOT_FOUND');
+  } finally {
+    removeDir(dir);
+  }
+});
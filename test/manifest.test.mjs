@@ -0,0 +1,76 @@
+// SHA-256 manifest checksums and wallet-signed manifests (user-021)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import { KeySigner, LocalStoreManager, canonicalJson, manifestChecksum, signManifest, verifyManifest } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const KEY = 'L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k';
+
+function sampleManifest() {
+  const manager = new LocalStoreManager('/unused/store.json');
+  manager.updateProfile({ name: 'Shop' });
+  const product = manager.createProduct({ name: 'Pack', description: 'Prompts', category_id: 'prompts', price: 5, delivery_type: 'download' });
+  manager.markReady(product.local_id);
+  return manager.generateSyncManifest('agent-1');
+}
+
+test('canonical JSON sorts keys and drops undefined members', () => {
+  assert.equal(canonicalJson({ b: 1, a: { d: undefined, c: [1, undefined] } }), '{"a":{"c":[1,null]},"b":1}');
+});
+
+test('the checksum is SHA-256 over the canonical manifest without checksum and signature', () => {
+  const manifest = sampleManifest();
+  const { checksum, ...content } = manifest;
+  assert.equal(checksum, createHash('sha256').update(canonicalJson(content)).digest('hex'));
+  assert.equal(manifestChecksum({ ...manifest, checksum: 'other' }), checksum);
+  assert.equal(verifyManifest(manifest).valid, true);
+  assert.equal(verifyManifest(manifest).signed, false);
+});
+
+test('tampering with a product breaks the checksum', () => {
+  const manifest = sampleManifest();
+  manifest.products[0].data.price = 1;
+  const result = verifyManifest(manifest);
+  assert.equal(result.valid, false);
+  assert.equal(result.checksum_valid, false);
+});
+
+for (const scheme of ['bip322', 'ecdsa', 'schnorr']) {
+  test(`signed manifests verify with a ${scheme} signature and bind the address`, async () => {
+    const signer = new KeySigner({ privateKey: KEY, scheme });
+    const signed = await signManifest(sampleManifest(), signer);
+
+    assert.equal(signed.signature.address, signer.address);
+    assert.deepEqual(
+      [verifyManifest(signed).valid, verifyManifest(signed, signer.address).valid, verifyManifest(signed, 'bc1qsomeoneelse').valid],
+      [true, true, false]
+    );
+
+    const tampered = { ...signed, products: [{ ...signed.products[0], action: 'delete' }] };
+    tampered.checksum = manifestChecksum(tampered);
+    assert.equal(verifyManifest(tampered).checksum_valid, true);
+    assert.equal(verifyManifest(tampered).signature_valid, false);
+  });
+}
+
+test('push signs the manifest with the configured signer', async () => {
+  const dir = tempDir();
+  try {
+    const signer = new KeySigner({ privateKey: KEY });
+    const api = fakeApi({
+      'POST /sync/push': () => ok({ sync_id: 's', timestamp: new Date().toISOString(), results: { created: [], updated: [], deleted: [], errors: [] } })
+    });
+    const client = makeClient(api, dir, { manifestSigner: signer });
+    await client.localStore.load();
+    const product = client.localStore.createProduct({ name: 'Pack', description: '', category_id: 'prompts', price: 5, delivery_type: 'download' });
+    client.localStore.markReady(product.local_id);
+
+    await client.push('agent-1');
+    const sent = api.calls.at(-1).body.manifest;
+    assert.equal(verifyManifest(sent, signer.address).valid, true);
+  } finally {
+    removeDir(dir);
+  }
+});
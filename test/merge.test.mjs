@@ -0,0 +1,110 @@
+// Three-way merge of local and marketplace product edits (user-019)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalStoreManager, threeWayMerge } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const base = { name: 'Pack', description: 'Prompts', category_id: 'prompts', price: 5, delivery_type: 'download' };
+
+function remote(id, fields = {}) {
+  return {
+    id,
+    seller_id: 'agent-1',
+    ...base,
+    ...fields,
+    price: String(fields.price ?? base.price),  // The API sends prices as strings
+    status: 'active',
+    sales_count: 0,
+    rating_sum: 0,
+    rating_count: 0,
+    created_at: '2025-01-01T00:00:00.000Z'
+  };
+}
+
+function published(manager, remoteId) {
+  const product = manager.createProduct({ ...base });
+  manager.markReady(product.local_id);
+  manager.applySyncResults({
+    sync_id: 'sync-1',
+    timestamp: new Date().toISOString(),
+    results: { created: [{ local_id: product.local_id, remote_id: remoteId }], updated: [], deleted: [], errors: [] }
+  });
+  return product.local_id;
+}
+
+test('one-sided edits merge; edits on both sides follow the strategy', () => {
+  const local = { ...base, name: 'Local name', price: 10 };
+  const theirs = { ...base, description: 'Moderated', price: 12 };
+
+  const manual = threeWayMerge(base, local, theirs);
+  assert.deepEqual(manual.kept_local, ['name']);
+  assert.deepEqual(manual.taken_from_remote, ['description']);
+  assert.deepEqual(manual.conflicts.map(c => [c.field, c.base, c.local, c.remote]), [['price', 5, 10, 12]]);
+  assert.equal(manual.merged.description, 'Moderated');
+
+  assert.equal(threeWayMerge(base, local, theirs, { strategy: 'remote' }).merged.price, 12);
+  assert.equal(threeWayMerge(base, local, theirs, { strategy: 'remote', fields: { price: 'local' } }).merged.price, 10);
+});
+
+test('without a base, every differing field is a conflict', () => {
+  const result = threeWayMerge(undefined, { ...base, price: 10 }, base);
+  assert.deepEqual(result.conflicts.map(c => c.field), ['price']);
+});
+
+test('conflicting products are held back until resolved', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const id = published(manager, 'remote-1');
+  manager.updateProduct(id, { price: 10 });
+
+  const summary = manager.mergeRemote([remote('remote-1', { price: 12 })]);
+  assert.deepEqual(summary, { merged: 1, updated_from_remote: 0, conflicts: 1 });
+  assert.deepEqual(manager.getConflicts().map(c => c.conflicts.map(f => f.field)), [['price']]);
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'unchanged');
+
+  assert.equal(manager.resolveConflict(id, 'price', { value: 11 }).price, 11);
+  assert.deepEqual(manager.getConflicts(), []);
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'update');
+});
+
+test('taking the remote value for every conflict leaves the product synced', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const id = published(manager, 'remote-1');
+  manager.updateProduct(id, { price: 10 });
+  manager.mergeRemote([remote('remote-1', { price: 12 })]);
+
+  const product = manager.resolveConflict(id, 'price', 'remote');
+  assert.equal(product.price, 12);
+  assert.equal(product.status, 'synced');
+});
+
+test('push checks the marketplace first and does not overwrite remote edits', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({
+      'GET /products/my/products': () => ok({ products: [remote('remote-1', { description: 'Moderated' })], total: 1 }),
+      'POST /sync/push': call => ok({
+        sync_id: 'sync-2',
+        timestamp: new Date().toISOString(),
+        results: {
+          created: [],
+          updated: call.body.manifest.products.filter(p => p.action === 'update').map(p => ({ local_id: p.local_id, remote_id: p.remote_id })),
+          deleted: [],
+          errors: []
+        }
+      })
+    });
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+    const id = published(client.localStore, 'remote-1');
+    client.localStore.updateProduct(id, { name: 'Renamed' });
+
+    assert.equal((await client.push('agent-1')).success, true);
+    const sent = api.calls.at(-1).body.manifest.products[0];
+    assert.equal(sent.data.name, 'Renamed');
+    assert.equal(sent.data.description, 'Moderated');
+    assert.equal(client.localStore.getProduct(id).status, 'synced');
+  } finally {
+    removeDir(dir);
+  }
+});
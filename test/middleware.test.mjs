@@ -0,0 +1,80 @@
+// Pluggable transport and middleware pipeline (user-004)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeApi, ok, fail, json, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+test('the injected fetch receives every request', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /credits/balance': ok({ balance: '10', last_updated: 'now' }) });
+    const result = await makeClient(api, dir, { authToken: 'token' }).getBalance();
+    assert.equal(result.data.balance, '10');
+    assert.equal(api.calls[0].headers.Authorization, 'Bearer token');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('onRequest runs in registration order on every attempt', async () => {
+  const dir = tempDir();
+  try {
+    let attempts = 0;
+    const api = fakeApi({ 'GET /auth/me': () => ++attempts === 1 ? fail(503, 'UNAVAILABLE') : ok({ id: 'a' }) });
+    const seen = [];
+    const client = makeClient(api, dir, {
+      middleware: [{ onRequest: ctx => ({ ...ctx, headers: { ...ctx.headers, 'X-Trace': `t-${ctx.attempt}` } }) }]
+    });
+    client.use({ onRequest: ctx => { seen.push(ctx.headers['X-Trace']); } });
+
+    await client.getAgentInfo();
+    assert.deepEqual(seen, ['t-0', 't-1']);
+    assert.deepEqual(api.calls.map(c => c.headers['X-Trace']), ['t-0', 't-1']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('onResponse can replace the raw response', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /credits/balance': ok({ balance: '10', last_updated: 'now' }) });
+    const client = makeClient(api, dir).use({
+      onResponse: () => json({ success: true, data: { balance: '99', last_updated: 'later' } })
+    });
+    assert.equal((await client.getBalance()).data.balance, '99');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('onError maps the final failure only', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': fail(418, 'TEAPOT') });
+    const errors = [];
+    const client = makeClient(api, dir).use({
+      onError: (ctx, result) => {
+        errors.push(ctx.path);
+        return { ...result, error: { ...result.error, code: 'MAPPED' } };
+      }
+    });
+
+    assert.equal((await client.getAgentInfo()).error.code, 'MAPPED');
+    assert.deepEqual(errors, ['/auth/me']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('onError is not called for successful responses', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': ok({ id: 'a' }) });
+    let called = false;
+    await makeClient(api, dir).use({ onError: () => { called = true; } }).getAgentInfo();
+    assert.equal(called, false);
+  } finally {
+    removeDir(dir);
+  }
+});
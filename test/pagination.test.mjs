@@ -0,0 +1,85 @@
+// Async pagination iterators (user-006)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizePagination, paginate, NotFoundError } from '../dist/index.js';
+import { fakeApi, ok, fail, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const ids = (n, prefix) => Array.from({ length: n }, (_, i) => ({ id: `${prefix}${i + 1}` }));
+
+async function collect(iterator) {
+  const items = [];
+  for await (const item of iterator) items.push(item);
+  return items;
+}
+
+test('iterateProducts walks { products, total, page, limit } pages', async () => {
+  const dir = tempDir();
+  try {
+    const all = ids(5, 'p');
+    const api = fakeApi({
+      'GET /products': call => {
+        const page = Number(call.query.get('page'));
+        const limit = Number(call.query.get('limit'));
+        return ok({ products: all.slice((page - 1) * limit, page * limit), total: all.length, page, limit });
+      }
+    });
+    const client = makeClient(api, dir);
+
+    const products = await collect(client.iterateProducts({ category: 'prompts' }, { pageSize: 2 }));
+    assert.deepEqual(products.map(p => p.id), ['p1', 'p2', 'p3', 'p4', 'p5']);
+    assert.equal(api.calls.length, 3);
+    assert.equal(api.calls[0].query.get('category'), 'prompts');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('iteratePlots walks { plots, pagination } pages and honours maxItems', async () => {
+  const dir = tempDir();
+  try {
+    const all = ids(10, 'plot');
+    const api = fakeApi({
+      'GET /plots/available': call => {
+        const page = Number(call.query.get('page'));
+        return ok({
+          plots: all.slice((page - 1) * 4, page * 4),
+          pagination: { page, limit: 4, total: all.length, total_pages: 3 }
+        });
+      }
+    });
+
+    const plots = await collect(makeClient(api, dir).iteratePlots({}, { maxItems: 6 }));
+    assert.deepEqual(plots.map(p => p.id), ['plot1', 'plot2', 'plot3', 'plot4', 'plot5', 'plot6']);
+    assert.equal(api.calls.length, 2);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a failed page throws the typed error', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /credits/history': fail(404, 'NOT_FOUND') });
+    await assert.rejects(collect(makeClient(api, dir).iterateTransactions()), NotFoundError);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('normalizePagination reads both shapes', () => {
+  assert.deepEqual(normalizePagination({ total: 25, page: 2, limit: 10 }, 10),
+    { page: 2, limit: 10, total: 25, totalPages: 3, hasMore: true });
+  assert.deepEqual(normalizePagination({ total: 25, page: 3, limit: 10, total_pages: 3 }, 5),
+    { page: 3, limit: 10, total: 25, totalPages: 3, hasMore: false });
+});
+
+test('an empty page ends the walk even if the server claims more', async () => {
+  let calls = 0;
+  const fetchPage = async page => {
+    calls++;
+    return { success: true, data: { items: [], pageInfo: { page, limit: 10, total: 100, totalPages: 10, hasMore: true } } };
+  };
+  assert.deepEqual(await collect(paginate(fetchPage)), []);
+  assert.equal(calls, 1);
+});
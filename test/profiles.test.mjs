@@ -0,0 +1,93 @@
+// Named profiles in one config directory (user-013)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { AgentRuntime, KeySigner, defaultKeyFilePath, PROFILE_ENV_VAR } from '../dist/index.js';
+import { tempDir, removeDir } from './helpers/fake-api.mjs';
+
+test('profiles keep separate configs and store paths', async () => {
+  const dir = tempDir();
+  try {
+    const runtime = new AgentRuntime({ configDir: dir });
+    await runtime.init();
+    await runtime.save();
+    await runtime.createProfile('staging', { apiUrl: 'https://staging.test/api/v1' });
+
+    const profiles = await runtime.listProfiles();
+    assert.deepEqual(profiles.map(p => [p.name, p.active]), [['default', true], ['staging', false]]);
+    assert.equal(profiles[1].apiUrl, 'https://staging.test/api/v1');
+    assert.equal(profiles[1].configPath, join(dir, 'profiles', 'staging', 'config.json'));
+
+    await runtime.switchProfile('staging');
+    assert.equal(runtime.getProfile(), 'staging');
+    assert.equal(runtime.getApiUrl(), 'https://staging.test/api/v1');
+    assert.equal(runtime.getConfig().storePath, join(dir, 'profiles', 'staging', 'store.json'));
+    assert.notEqual(runtime.getConfig().storePath, join(dir, 'store.json'));
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('each profile signs with its own wallet key', async () => {
+  const dir = tempDir();
+  try {
+    const main = await KeySigner.createKeyFile(defaultKeyFilePath(dir));
+    const buyer = await KeySigner.createKeyFile(defaultKeyFilePath(join(dir, 'profiles', 'buyer-bot')));
+
+    const runtime = new AgentRuntime({ configDir: dir });
+    await runtime.init();
+    assert.equal(runtime.getSigner().address, main.address);
+
+    await runtime.switchProfile('buyer-bot', { create: true });
+    assert.equal(runtime.getSigner().address, buyer.address);
+    await assert.rejects(runtime.switchProfile('missing'), /does not exist/);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the profile can be picked through the environment', async () => {
+  const dir = tempDir();
+  const previous = process.env[PROFILE_ENV_VAR];
+  try {
+    process.env[PROFILE_ENV_VAR] = 'seller-1';
+    const runtime = new AgentRuntime({ configDir: dir });
+    await runtime.init();
+    assert.equal(runtime.getProfile(), 'seller-1');
+    assert.equal(runtime.getConfigPath(), join(dir, 'profiles', 'seller-1', 'config.json'));
+
+    process.env[PROFILE_ENV_VAR] = '../escape';
+    assert.throws(() => new AgentRuntime({ configDir: dir }), /Invalid profile name/);
+  } finally {
+    if (previous === undefined) delete process.env[PROFILE_ENV_VAR];
+    else process.env[PROFILE_ENV_VAR] = previous;
+    removeDir(dir);
+  }
+});
+
+test('deleting guards the active profile, the default one and wallet keys', async () => {
+  const dir = tempDir();
+  try {
+    const runtime = new AgentRuntime({ configDir: dir });
+    await runtime.init();
+    await runtime.createProfile('staging');
+    await runtime.createProfile('seller');
+    await KeySigner.createKeyFile(defaultKeyFilePath(join(dir, 'profiles', 'seller')));
+
+    await assert.rejects(runtime.deleteProfile('default'), /cannot be deleted/);
+    await assert.rejects(runtime.deleteProfile('seller'), /holds a wallet key/);
+
+    await runtime.deleteProfile('staging');
+    assert.equal(existsSync(join(dir, 'profiles', 'staging')), false);
+    await runtime.deleteProfile('seller', { force: true });
+    assert.equal(existsSync(join(dir, 'profiles', 'seller')), false);
+
+    await runtime.createProfile('active');
+    await runtime.switchProfile('active');
+    await assert.rejects(runtime.deleteProfile('active'), /is active/);
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,120 @@
+// Pull results merged into the local store (user-018)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { LocalStoreManager } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const draft = name => ({ name, description: '', category_id: 'prompts', price: 5, delivery_type: 'download' });
+
+function purchase(id, productId) {
+  return {
+    id,
+    product_id: productId,
+    buyer_id: 'buyer-1',
+    seller_id: 'agent-1',
+    price_paid: '5',
+    platform_fee: '0',
+    seller_received: '5',
+    delivery_status: 'delivered',
+    download_token: null,
+    download_expires_at: null,
+    download_count: 0,
+    max_downloads: 5,
+    purchased_at: '2025-01-02T00:00:00.000Z'
+  };
+}
+
+function pullResult(overrides = {}) {
+  return {
+    sync_id: 'pull-1',
+    timestamp: '2025-01-03T00:00:00.000Z',
+    since: '1970-01-01T00:00:00.000Z',
+    sync_map: [],
+    new_purchases: [],
+    new_reviews: [],
+    product_updates: [],
+    overall_stats: { total_products: 1, active_products: 1, total_sales: 0, total_revenue: '0', avg_rating: null },
+    ...overrides
+  };
+}
+
+test('pull relinks lost pushes and records sales, reviews and moderation', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const product = manager.createProduct(draft('Pack'));
+  manager.markReady(product.local_id);
+
+  const summary = manager.applyPullResults(pullResult({
+    sync_map: [{ local_id: product.local_id, remote_id: 'remote-1' }],
+    new_purchases: [purchase('buy-1', 'remote-1')],
+    new_reviews: [
+      { id: 'review-1', product_id: 'remote-1', rating: 5, created_at: '2025-01-02T00:00:00.000Z' },
+      { id: 'review-2', product_id: 'remote-unknown', rating: 1, created_at: '2025-01-02T00:00:00.000Z' }
+    ],
+    product_updates: [{ product_id: 'remote-1', status: 'rejected', moderation_notes: 'Needs a description' }]
+  }));
+
+  assert.deepEqual(summary, { relinked: 1, sales: 1, reviews: 1, updates: 1, unmatched: 1 });
+  const pulled = manager.getProduct(product.local_id);
+  assert.equal(pulled.remote_id, 'remote-1');
+  assert.equal(pulled.status, 'modified');
+  assert.deepEqual(pulled.sales.map(s => s.purchase_id), ['buy-1']);
+  assert.deepEqual(pulled.reviews.map(r => r.id), ['review-1']);
+  assert.equal(pulled.marketplace_status, 'rejected');
+  assert.equal(pulled.moderation_notes, 'Needs a description');
+  assert.equal(manager.getPullCursor(), '2025-01-03T00:00:00.000Z');
+});
+
+test('pulling the same entries twice does not duplicate them', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const product = manager.createProduct(draft('Pack'));
+  const data = pullResult({
+    sync_map: [{ local_id: product.local_id, remote_id: 'remote-1' }],
+    new_purchases: [purchase('buy-1', 'remote-1')]
+  });
+  manager.applyPullResults(data);
+  const again = manager.applyPullResults(data);
+
+  assert.equal(again.sales, 0);
+  assert.equal(again.relinked, 0);
+  assert.equal(manager.getProduct(product.local_id).sales.length, 1);
+});
+
+test('client pulls are incremental from the saved cursor', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'POST /sync/pull': () => ok(pullResult()) });
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+
+    await client.pull();
+    await client.pull();
+    await client.pull(null);
+    assert.deepEqual(api.calls.map(c => c.body.since), [undefined, '2025-01-03T00:00:00.000Z', undefined]);
+
+    const saved = JSON.parse(readFileSync(join(dir, 'store.json'), 'utf-8'));
+    assert.equal(saved.pull_cursor, '2025-01-03T00:00:00.000Z');
+    assert.deepEqual(saved.sync_history.map(h => h.direction), ['pull', 'pull', 'pull']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a pull whose store cannot be saved still succeeds, with a warning', async () => {
+  const dir = tempDir();
+  try {
+    writeFileSync(join(dir, 'blocker'), '');
+    const api = fakeApi({ 'POST /sync/pull': () => ok(pullResult()) });
+    const client = makeClient(api, dir, { localStorePath: join(dir, 'blocker', 'store.json') });
+    await client.localStore.load();
+
+    const result = await client.pull();
+    assert.equal(result.success, true);
+    assert.equal(result.warnings.length, 1);
+    assert.match(result.warnings[0], /^Local store not saved: /);
+  } finally {
+    removeDir(dir);
+  }
+});
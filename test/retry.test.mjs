@@ -0,0 +1,121 @@
+// Retries with exponential backoff and jitter (user-001)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_RETRY_POLICY } from '../dist/index.js';
+import { fakeApi, ok, fail, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const agent = { id: 'agent_1', display_name: 'Agent' };
+
+test('GET is retried on transient statuses until it succeeds', async () => {
+  const dir = tempDir();
+  try {
+    let attempts = 0;
+    const api = fakeApi({
+      'GET /auth/me': () => ++attempts < 3 ? fail(503, 'UNAVAILABLE') : ok(agent)
+    });
+    const result = await makeClient(api, dir).getAgentInfo();
+    assert.equal(result.success, true);
+    assert.equal(attempts, 3);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('GET gives up after maxRetries', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': () => fail(500, 'SERVER_ERROR') });
+    const result = await makeClient(api, dir, { retry: { maxRetries: 2 } }).getAgentInfo();
+    assert.equal(result.success, false);
+    assert.equal(api.count('GET', '/auth/me'), 3);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('non-retryable statuses are returned at once', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': () => fail(400, 'BAD_REQUEST') });
+    await makeClient(api, dir).getAgentInfo();
+    assert.equal(api.count('GET', '/auth/me'), 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('POST is not retried on a 500, which may have been processed', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'POST /auth/challenge': () => fail(500, 'SERVER_ERROR') });
+    const result = await makeClient(api, dir).authenticate('bc1qexample', async () => 'sig');
+    assert.equal(result.success, false);
+    assert.equal(api.count('POST', '/auth/challenge'), 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('POST is retried when the server asks to come back later', async () => {
+  const dir = tempDir();
+  try {
+    let attempts = 0;
+    const api = fakeApi({
+      'POST /auth/challenge': () => ++attempts === 1
+        ? fail(429, 'RATE_LIMITED', 'slow down', { 'Retry-After': '0' })
+        : ok({ challenge: 'c', message: 'sign me' }),
+      'POST /auth/verify': () => ok({ token: 'token', agent, is_new_agent: false })
+    });
+    const result = await makeClient(api, dir).authenticate('bc1qexample', async () => 'sig');
+    assert.equal(result.success, true);
+    assert.equal(attempts, 2);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a Retry-After beyond maxRetryAfterMs fails fast', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': () => fail(503, 'UNAVAILABLE', 'down', { 'Retry-After': '3600' }) });
+    await makeClient(api, dir).getAgentInfo();
+    assert.equal(api.count('GET', '/auth/me'), 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('network errors on GET are retried', async () => {
+  const dir = tempDir();
+  try {
+    let attempts = 0;
+    const api = fakeApi({
+      'GET /auth/me': () => {
+        if (++attempts === 1) throw new TypeError('fetch failed');
+        return ok(agent);
+      }
+    });
+    const result = await makeClient(api, dir).getAgentInfo();
+    assert.equal(result.success, true);
+    assert.equal(attempts, 2);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('retry: false sends each call once', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': () => fail(503, 'UNAVAILABLE') });
+    await makeClient(api, dir, { retry: false }).getAgentInfo();
+    assert.equal(api.count('GET', '/auth/me'), 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the default policy retries three times on the usual transient statuses', () => {
+  assert.equal(DEFAULT_RETRY_POLICY.maxRetries, 3);
+  assert.deepEqual(DEFAULT_RETRY_POLICY.retryOnStatus, [408, 425, 429, 500, 502, 503, 504]);
+});
@@ -0,0 +1,60 @@
+// Wallet message signing and verification (user-010), including the
+// official BIP-322 test vectors.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeySigner, verifyMessage } from '../dist/index.js';
+
+// https://github.com/bitcoin/bips/blob/master/bip-0322.mediawiki#test-vectors
+const BIP322_KEY = 'L3VFeEujGtevx9w18HD1fhRbCH67Az2dpCymeRE1SoPK6XQtaN2k';
+const P2WPKH = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l';
+const P2TR = 'bc1ppv609nr0vr25u07u95waq5lucwfm6tde4nydujnu8npg4q75mr5sxq8lt3';
+
+// RFC 6979 (deterministic nonce) P2WPKH signatures from the BIP
+const EMPTY_SIGNATURE = 'AkgwRQIhAPkJ1Q4oYS0htvyuSFHLxRQpFAY56b70UvE7Dxazen0ZAiAtZfFz1S6T6I23MWI2lK/pcNTWncuyL8UL+oMdydVgzAEhAsfxIAMZZEKUPYWI4BruhAQjzFT8FSFSajuFwrDL1Yhy';
+const HELLO_SIGNATURE = 'AkgwRQIhAOzyynlqt93lOKJr+wmmxIens//zPzl9tqIOua93wO6MAiBi5n5EyAcPScOjf1lAqIUIQtr3zKNeavYabHyR8eGhowEhAsfxIAMZZEKUPYWI4BruhAQjzFT8FSFSajuFwrDL1Yhy';
+
+test('BIP-322 P2WPKH vectors verify', () => {
+  assert.ok(verifyMessage(P2WPKH, '', EMPTY_SIGNATURE));
+  assert.ok(verifyMessage(P2WPKH, 'Hello World',
+    'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI='));
+  assert.ok(!verifyMessage(P2WPKH, 'Hello World!',
+    'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI='));
+});
+
+test('BIP-322 P2TR vector with an explicit sighash byte verifies', () => {
+  const signature = 'AUHd69PrJQEv+oKTfZ8l+WROBHuy9HKrbFCJu7U1iK2iiEy1vMU5EfMtjc+VSHM7aU0SDbak5IUZRVno2P5mjSafAQ==';
+  assert.ok(verifyMessage(P2TR, 'Hello World', signature));
+  assert.ok(!verifyMessage(P2TR, 'Hello World!', signature));
+});
+
+test('P2WPKH signing reproduces the deterministic BIP-322 vectors', async () => {
+  const signer = new KeySigner({ privateKey: BIP322_KEY, scheme: 'bip322', addressType: 'p2wpkh' });
+  assert.equal(await signer.signMessage(''), EMPTY_SIGNATURE);
+  assert.equal(await signer.signMessage('Hello World'), HELLO_SIGNATURE);
+});
+
+test('the vector key derives the vector addresses', () => {
+  assert.equal(new KeySigner({ privateKey: BIP322_KEY, addressType: 'p2wpkh' }).address, P2WPKH);
+  assert.equal(new KeySigner({ privateKey: BIP322_KEY, addressType: 'p2tr' }).address, P2TR);
+});
+
+for (const [scheme, addressType] of [
+  ['bip322', 'p2wpkh'],
+  ['bip322', 'p2tr'],
+  ['ecdsa', 'p2pkh'],
+  ['ecdsa', 'p2wpkh'],
+  ['schnorr', 'p2tr']
+]) {
+  test(`${scheme} signatures from a ${addressType} key round-trip`, async () => {
+    const signer = new KeySigner({ privateKey: BIP322_KEY, scheme, addressType });
+    const signature = await signer.signMessage('mcpSovereign challenge 42');
+    assert.ok(verifyMessage(signer.address, 'mcpSovereign challenge 42', signature));
+    assert.ok(!verifyMessage(signer.address, 'mcpSovereign challenge 43', signature));
+  });
+}
+
+test('malformed witnesses are rejected, not thrown', () => {
+  assert.equal(verifyMessage(P2WPKH, 'Hello World', 'Av8='), false);
+  assert.equal(verifyMessage(P2TR, 'Hello World', '/w=='), false);
+});
@@ -0,0 +1,133 @@
+// Atomic writes, advisory locking and backups for the local store (user-015)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync, readFileSync, readdirSync, existsSync } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import {
+  LocalStoreManager,
+  FileLockError,
+  withFileLock,
+  writeFileAtomic,
+  rotateBackups,
+  backupPath
+} from '../dist/index.js';
+import { tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const draft = name => ({ name, description: '', category_id: 'prompts', price: 1, delivery_type: 'download' });
+
+test('atomic writes leave no temp files behind', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'nested', 'file.json');
+    await writeFileAtomic(path, '{"a":1}');
+    await writeFileAtomic(path, '{"a":2}');
+    assert.equal(readFileSync(path, 'utf-8'), '{"a":2}');
+    assert.deepEqual(readdirSync(join(dir, 'nested')), ['file.json']);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('the lock serialises writers', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    const order = [];
+    const hold = (name, ms) => withFileLock(path, async () => {
+      order.push(`${name}:start`);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      order.push(`${name}:end`);
+    }, { retryMs: 5 });
+
+    await Promise.all([hold('a', 30), hold('b', 1)]);
+    assert.deepEqual(order, ['a:start', 'a:end', 'b:start', 'b:end']);
+    assert.equal(existsSync(`${path}.lock`), false);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a lock held by a live process times out with its holder', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    const holder = { id: 'other', pid: process.ppid, host: hostname(), created_at: new Date().toISOString() };
+    writeFileSync(`${path}.lock`, JSON.stringify(holder));
+
+    await assert.rejects(withFileLock(path, async () => {}, { timeoutMs: 50, retryMs: 10 }), error => {
+      assert.ok(error instanceof FileLockError);
+      assert.equal(error.holder.pid, process.ppid);
+      return true;
+    });
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a lock left by a dead process is taken over', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    const holder = { id: 'dead', pid: 2 ** 22 + 1, host: hostname(), created_at: new Date().toISOString() };
+    writeFileSync(`${path}.lock`, JSON.stringify(holder));
+
+    assert.equal(await withFileLock(path, async () => 'ran', { timeoutMs: 200 }), 'ran');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('backups rotate, newest first', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    for (const version of ['1', '2', '3', '4']) {
+      await rotateBackups(path, 2);
+      writeFileSync(path, version);
+    }
+    assert.equal(readFileSync(backupPath(path, 1), 'utf-8'), '3');
+    assert.equal(readFileSync(backupPath(path, 2), 'utf-8'), '2');
+    assert.equal(existsSync(backupPath(path, 3)), false);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('two managers saving the same store keep both sets of changes', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    const first = new LocalStoreManager(path);
+    const second = new LocalStoreManager(path);
+    await first.load();
+    await second.load();
+
+    first.createProduct(draft('From the MCP server'));
+    second.createProduct(draft('From the CLI'));
+    second.updateProfile({ name: 'Shop' });
+    await first.save();
+    await second.save();
+
+    const reloaded = new LocalStoreManager(path);
+    await reloaded.load();
+    assert.deepEqual(reloaded.getProducts().map(p => p.name).sort(), ['From the CLI', 'From the MCP server']);
+    assert.equal(reloaded.getProfile().name, 'Shop');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('save failures reach the caller', async () => {
+  const dir = tempDir();
+  try {
+    writeFileSync(join(dir, 'blocker'), '');
+    const manager = new LocalStoreManager(join(dir, 'blocker', 'store.json'));
+    await manager.load();
+    manager.createProduct(draft('Pack'));
+    await assert.rejects(manager.save());
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,168 @@
+// Round-trips between the JSON store file and the directory format.
+// Run with `npm test` (builds first; the tests import ../dist).
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { LocalStoreManager, STATE_FILE, STORE_FILE } from '../dist/index.js';
+
+function tempDir() {
+  return mkdtempSync(join(tmpdir(), 'sovereign-store-'));
+}
+
+async function sampleStore(root) {
+  const manager = new LocalStoreManager(join(root, 'store.json'));
+  await manager.load();
+  manager.updateProfile({ name: 'Test Store', description: 'Prompts and skills.\n\nSecond paragraph.' });
+
+  const inside = manager.createProduct({
+    name: 'Prompt Pack',
+    description: 'Fifty prompts for code review.',
+    category_id: 'prompts',
+    price: 25,
+    delivery_type: 'download'
+  });
+  const outside = manager.createProduct({
+    name: 'Skill: "review"',
+    description: '',
+    category_id: 'skills',
+    price: 40,
+    delivery_type: 'download'
+  });
+
+  mkdirSync(join(root, 'files', 'skill'), { recursive: true });
+  writeFileSync(join(root, 'files', 'skill', 'SKILL.md'), '# Review\n');
+  await manager.packageDeliverable(inside.local_id, join(root, 'files', 'skill'), join(root, 'dir-store', 'deliverables', 'pack.tar.gz'));
+  await manager.packageDeliverable(outside.local_id, join(root, 'files', 'skill'), join(root, 'archives', 'skill.tar.gz'));
+  manager.markReady(inside.local_id);
+
+  manager.syncLibrary([{
+    id: 'purchase_1',
+    product_id: 'remote_1',
+    product_name: 'Bought Thing',
+    buyer_id: 'me',
+    seller_id: 'them',
+    price_paid: '10',
+    platform_fee: '1',
+    seller_received: '9',
+    delivery_status: 'delivered',
+    download_token: 'secret-token',
+    download_expires_at: '2030-01-01T00:00:00.000Z',
+    download_count: 1,
+    max_downloads: 5,
+    purchased_at: '2026-01-01T00:00:00.000Z'
+  }]);
+  manager.applySyncResults({
+    sync_id: 'sync_1',
+    timestamp: '2026-02-01T00:00:00.000Z',
+    results: { created: [], updated: [], deleted: [], errors: [] }
+  });
+
+  await manager.save();
+  return manager;
+}
+
+test('JSON -> directory -> JSON keeps the store unchanged', async () => {
+  const root = tempDir();
+  try {
+    const original = await sampleStore(root);
+    const dir = join(root, 'dir-store');
+    await original.exportTo(dir, 'directory');
+
+    const fromDirectory = new LocalStoreManager(dir);
+    await fromDirectory.load();
+    await fromDirectory.exportTo(join(root, 'roundtrip.json'), 'json');
+
+    assert.deepEqual(
+      JSON.parse(readFileSync(join(root, 'roundtrip.json'), 'utf-8')),
+      JSON.parse(readFileSync(join(root, 'store.json'), 'utf-8'))
+    );
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('directory -> JSON -> directory keeps products and library', async () => {
+  const root = tempDir();
+  try {
+    const original = await sampleStore(root);
+    const first = join(root, 'dir-store');
+    await original.exportTo(first, 'directory');
+
+    const viaJson = new LocalStoreManager(first);
+    await viaJson.load();
+    await viaJson.exportTo(join(root, 'copy.json'), 'json');
+    const fromJson = new LocalStoreManager(join(root, 'copy.json'));
+    await fromJson.load();
+    await fromJson.exportTo(first, 'directory');
+
+    const again = new LocalStoreManager(first);
+    await again.load();
+    assert.deepEqual(again.getProducts(), viaJson.getProducts());
+    assert.deepEqual(again.getLibrary(), viaJson.getLibrary());
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('deliverable paths are relative only inside the store directory', async () => {
+  const root = tempDir();
+  try {
+    const original = await sampleStore(root);
+    const dir = join(root, 'dir-store');
+    await original.exportTo(dir, 'directory');
+
+    const [inside, outside] = original.getProducts();
+    const insideMd = readFileSync(join(dir, 'products', inside.local_id, 'product.md'), 'utf-8');
+    const outsideMd = readFileSync(join(dir, 'products', outside.local_id, 'product.md'), 'utf-8');
+    assert.match(insideMd, /"archive_path":"deliverables\/pack\.tar\.gz"/);
+    assert.ok(outsideMd.includes(JSON.stringify(join(root, 'archives', 'skill.tar.gz'))));
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('a relative path outside the store resolves against the working directory', async () => {
+  const root = tempDir();
+  const cwd = process.cwd();
+  try {
+    const original = await sampleStore(root);
+    const [product] = original.getProducts();
+    process.chdir(root);
+    original.updateProduct(product.local_id, {
+      deliverable: { ...product.deliverable, source_path: relative(root, join(root, 'files', 'skill')) }
+    });
+
+    const dir = join(root, 'dir-store');
+    await original.exportTo(dir, 'directory');
+    const reloaded = new LocalStoreManager(dir);
+    await reloaded.load();
+    assert.equal(reloaded.getProduct(product.local_id).deliverable.source_path, join(root, 'files', 'skill'));
+  } finally {
+    process.chdir(cwd);
+    rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('sync state and download tokens stay out of store.md', async () => {
+  const root = tempDir();
+  try {
+    const original = await sampleStore(root);
+    const dir = join(root, 'dir-store');
+    await original.exportTo(dir, 'directory');
+
+    const storeMd = readFileSync(join(dir, STORE_FILE), 'utf-8');
+    assert.doesNotMatch(storeMd, /secret-token|library|sync_history|pull_cursor|last_sync/);
+
+    const state = JSON.parse(readFileSync(join(dir, STATE_FILE), 'utf-8'));
+    assert.equal(state.library[0].download_token, 'secret-token');
+    assert.equal(state.sync_history[0].id, 'sync_1');
+
+    const gitignore = readFileSync(join(dir, '.gitignore'), 'utf-8').split('\n');
+    assert.ok(gitignore.includes(STATE_FILE));
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+});
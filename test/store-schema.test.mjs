@@ -0,0 +1,116 @@
+// Store versioning, migrations and quarantine of corrupt files (user-016)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { writeFileSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { LocalStoreManager, STORE_MIGRATIONS, STORE_VERSION, StoreError, StoreVersionError, migrateStore } from '../dist/index.js';
+import { tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const legacyProduct = {
+  local_id: 'local_1',
+  name: 'Pack',
+  description: '',
+  category_id: 'prompts',
+  price: 5,
+  delivery_type: 'download',
+  status: 'draft',
+  created_at: '2025-01-01T00:00:00.000Z'
+};
+
+test('an unversioned store migrates from 1.0.0 in one step', () => {
+  const { store, migrated } = migrateStore({ products: [legacyProduct] }, 'store.json');
+  assert.equal(migrated, true);
+  assert.deepEqual(Object.keys(STORE_MIGRATIONS), ['1.0.0']);
+  assert.equal(store.version, STORE_VERSION);
+  assert.deepEqual(store.profile, {});
+  assert.deepEqual(store.sync_history, []);
+  assert.equal(store.products[0].updated_at, legacyProduct.created_at);
+});
+
+test('a current store is not migrated and a newer one is refused', () => {
+  assert.equal(migrateStore({ version: STORE_VERSION, profile: {}, products: [], sync_history: [] }, 's').migrated, false);
+  assert.throws(() => migrateStore({ version: '9.0.0', products: [] }, 's'), StoreVersionError);
+  assert.throws(() => migrateStore({ version: '0.5.0', products: [] }, 's'), /no migration from store version 0.5.0/);
+});
+
+test('a legacy file loads, and is written back at the current version', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    writeFileSync(path, JSON.stringify({ version: '1.0.0', profile: {}, products: [legacyProduct], sync_history: [] }));
+
+    const manager = new LocalStoreManager(path);
+    await manager.load();
+    assert.equal(manager.getProducts().length, 1);
+    await manager.save();
+    assert.equal(JSON.parse(readFileSync(path, 'utf-8')).version, STORE_VERSION);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a corrupt store is quarantined and the newest good backup restored', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    const manager = new LocalStoreManager(path);
+    await manager.load();
+    manager.createProduct({ name: 'Kept', description: '', category_id: 'prompts', price: 1, delivery_type: 'download' });
+    await manager.save();
+    await manager.save();  // The first save is now backup 1
+
+    writeFileSync(path, '{ "products": [');
+    const reopened = new LocalStoreManager(path);
+    await reopened.load();
+
+    assert.deepEqual(reopened.getProducts().map(p => p.name), ['Kept']);
+    const recovery = reopened.getRecovery();
+    assert.equal(recovery.restored_from, `${path}.bak.1`);
+    assert.equal(readFileSync(recovery.quarantined_path, 'utf-8'), '{ "products": [');
+    assert.ok(readdirSync(dir).some(name => name.startsWith('store.json.corrupt-')));
+
+    reopened.clearRecovery();
+    assert.equal(reopened.getRecovery(), null);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('an invalid product is reported with its issues instead of being dropped', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    writeFileSync(path, JSON.stringify({
+      version: STORE_VERSION,
+      profile: {},
+      products: [{ ...legacyProduct, updated_at: legacyProduct.created_at, status: 'published', price: 'free' }],
+      sync_history: []
+    }));
+
+    const manager = new LocalStoreManager(path);
+    await manager.load();
+    const recovery = manager.getRecovery();
+    assert.equal(recovery.restored_from, null);
+    assert.ok(recovery.issues.length >= 2);
+    assert.ok(readFileSync(recovery.quarantined_path, 'utf-8').includes('published'));
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a store from a newer SDK is left alone and never overwritten', async () => {
+  const dir = tempDir();
+  try {
+    const path = join(dir, 'store.json');
+    const future = JSON.stringify({ version: '9.0.0', profile: {}, products: [], sync_history: [] });
+    writeFileSync(path, future);
+
+    const manager = new LocalStoreManager(path);
+    await assert.rejects(manager.load(), StoreVersionError);
+    await assert.rejects(manager.save(), StoreError);
+    assert.equal(readFileSync(path, 'utf-8'), future);
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,89 @@
+// Per-product push errors, retries and held-back products (user-020)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LocalStoreManager } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const draft = name => ({ name, description: '', category_id: 'prompts', price: 5, delivery_type: 'download' });
+
+function failedPush(localId, error, timestamp = new Date().toISOString()) {
+  return {
+    sync_id: `sync-${timestamp}`,
+    timestamp,
+    results: { created: [], updated: [], deleted: [], errors: [{ local_id: localId, error }] }
+  };
+}
+
+function readyProduct(manager, name = 'Pack') {
+  const product = manager.createProduct(draft(name));
+  manager.markReady(product.local_id);
+  return product.local_id;
+}
+
+test('push errors are recorded per product with an attempt count', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const id = readyProduct(manager);
+
+  manager.applySyncResults(failedPush(id, 'Price too low', '2025-01-01T00:00:00.000Z'));
+  manager.applySyncResults(failedPush(id, 'Price still too low', '2025-01-02T00:00:00.000Z'));
+
+  const [entry] = manager.getSyncErrors();
+  assert.equal(entry.local_id, id);
+  assert.equal(entry.status, 'ready');
+  assert.deepEqual(entry.error, { message: 'Price still too low', attempts: 2, last_attempt_at: '2025-01-02T00:00:00.000Z' });
+  assert.equal(manager.getSyncStats().failed, 1);
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'create');
+});
+
+test('products are held back after the last allowed attempt until marked ready', () => {
+  const manager = new LocalStoreManager('/unused/store.json', { maxSyncAttempts: 2 });
+  const id = readyProduct(manager);
+  manager.applySyncResults(failedPush(id, 'Rejected'));
+  manager.applySyncResults(failedPush(id, 'Rejected'));
+
+  assert.equal(manager.getSyncErrors()[0].held_back, true);
+  assert.equal(manager.getSyncStats().held_back, 1);
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'unchanged');
+
+  manager.markReady(id);
+  assert.deepEqual(manager.getSyncErrors(), []);
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'create');
+});
+
+test('with retries off a failed product waits for markReady', () => {
+  const manager = new LocalStoreManager('/unused/store.json', { retryFailed: false });
+  const id = readyProduct(manager);
+  manager.applySyncResults(failedPush(id, 'Rejected'));
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'unchanged');
+});
+
+test('a successful push clears the error', async () => {
+  const dir = tempDir();
+  try {
+    let fail = true;
+    const api = fakeApi({
+      'POST /sync/push': call => {
+        const products = call.body.manifest.products.filter(p => p.action === 'create');
+        const results = fail
+          ? { created: [], errors: products.map(p => ({ local_id: p.local_id, error: 'Server busy' })) }
+          : { created: products.map(p => ({ local_id: p.local_id, remote_id: `remote-${p.local_id}` })), errors: [] };
+        return ok({ sync_id: 's', timestamp: new Date().toISOString(), results: { updated: [], deleted: [], ...results } });
+      }
+    });
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+    const id = readyProduct(client.localStore);
+
+    await client.push('agent-1');
+    assert.equal(client.localStore.getProduct(id).sync_error.attempts, 1);
+
+    fail = false;
+    await client.push('agent-1');
+    const product = client.localStore.getProduct(id);
+    assert.equal(product.status, 'synced');
+    assert.equal(product.sync_error, undefined);
+  } finally {
+    removeDir(dir);
+  }
+});
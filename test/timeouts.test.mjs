@@ -0,0 +1,77 @@
+// Request timeouts and AbortSignal support (user-003)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+// Answers after `ms`, or rejects like fetch does when the call is aborted
+function slow(ms, data = { id: 'agent_1' }) {
+  return call => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(ok(data)), ms);
+    call.signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('This operation was aborted', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+test('a call slower than timeoutMs fails with TIMEOUT', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': slow(1000) });
+    const result = await makeClient(api, dir, { timeoutMs: 20, retry: false }).getAgentInfo();
+    assert.equal(result.error.code, 'TIMEOUT');
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('a per-call timeoutMs overrides the client default', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': slow(50) });
+    const client = makeClient(api, dir, { timeoutMs: 10, retry: false });
+    assert.equal((await client.getAgentInfo({ timeoutMs: 1000 })).success, true);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('timed-out GETs are retried with a fresh timeout per attempt', async () => {
+  const dir = tempDir();
+  try {
+    let attempts = 0;
+    const api = fakeApi({ 'GET /auth/me': call => ++attempts === 1 ? slow(1000)(call) : ok({ id: 'agent_1' }) });
+    const result = await makeClient(api, dir, { timeoutMs: 20 }).getAgentInfo();
+    assert.equal(result.success, true);
+    assert.equal(attempts, 2);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('aborting the signal cancels the call with ABORTED and no retry', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': slow(1000) });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+    const result = await makeClient(api, dir).getAgentInfo({ signal: controller.signal });
+    assert.equal(result.error.code, 'ABORTED');
+    assert.equal(api.calls.length, 1);
+  } finally {
+    removeDir(dir);
+  }
+});
+
+test('an already aborted signal sends nothing', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({ 'GET /auth/me': ok({ id: 'agent_1' }) });
+    const result = await makeClient(api, dir).getAgentInfo({ signal: AbortSignal.abort() });
+    assert.equal(result.error.code, 'ABORTED');
+    assert.equal(api.calls.length, 0);
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,102 @@
+// Deletion sync through tombstones (user-017)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { LocalStoreManager } from '../dist/index.js';
+import { fakeApi, ok, makeClient, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const draft = name => ({ name, description: '', category_id: 'prompts', price: 5, delivery_type: 'download' });
+
+function pushed(localId, remoteId) {
+  return {
+    sync_id: `sync-${remoteId}`,
+    timestamp: new Date().toISOString(),
+    results: { created: [{ local_id: localId, remote_id: remoteId }], updated: [], deleted: [], errors: [] }
+  };
+}
+
+function published(manager, name, remoteId) {
+  const product = manager.createProduct(draft(name));
+  manager.markReady(product.local_id);
+  manager.applySyncResults(pushed(product.local_id, remoteId));
+  return manager.getProduct(product.local_id);
+}
+
+test('unpublished products are removed, published ones become tombstones', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const local = manager.createProduct(draft('Local only'));
+  const live = published(manager, 'Live', 'remote-1');
+
+  assert.equal(manager.deleteProduct(local.local_id), true);
+  assert.equal(manager.getProduct(local.local_id), undefined);
+
+  assert.equal(manager.deleteProduct(live.local_id), true);
+  const tombstone = manager.getProduct(live.local_id);
+  assert.equal(tombstone.status, 'deleted');
+  assert.ok(tombstone.deleted_at);
+  assert.equal(manager.updateProduct(live.local_id, { price: 1 }), null);
+
+  const stats = manager.getSyncStats();
+  assert.equal(stats.deleting, 1);
+  assert.equal(stats.pending, 1);
+  assert.deepEqual(manager.generateSyncManifest('agent').products.map(p => [p.remote_id, p.action, p.data]), [
+    ['remote-1', 'delete', undefined]
+  ]);
+});
+
+test('a tombstone can be restored as an update', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const live = published(manager, 'Live', 'remote-1');
+  manager.deleteProduct(live.local_id);
+
+  assert.equal(manager.restoreProduct(live.local_id).status, 'modified');
+  assert.equal(manager.generateSyncManifest('agent').products[0].action, 'update');
+});
+
+test('tombstones are purged once the marketplace confirms the delete', () => {
+  const manager = new LocalStoreManager('/unused/store.json');
+  const byLocal = published(manager, 'A', 'remote-a');
+  const byRemote = published(manager, 'B', 'remote-b');
+  const unconfirmed = published(manager, 'C', 'remote-c');
+  for (const p of [byLocal, byRemote, unconfirmed]) manager.deleteProduct(p.local_id);
+
+  manager.applySyncResults({
+    sync_id: 'sync-delete',
+    timestamp: new Date().toISOString(),
+    results: { created: [], updated: [], deleted: [byLocal.local_id, 'remote-b'], errors: [] }
+  });
+
+  assert.deepEqual(manager.getProducts().map(p => p.name), ['C']);
+  assert.equal(manager.getProduct(unconfirmed.local_id).status, 'deleted');
+});
+
+test('push sends the delete and saves the purged store', async () => {
+  const dir = tempDir();
+  try {
+    const api = fakeApi({
+      'POST /sync/push': call => ok({
+        sync_id: 'sync-2',
+        timestamp: new Date().toISOString(),
+        results: {
+          created: [],
+          updated: [],
+          deleted: call.body.manifest.products.filter(p => p.action === 'delete').map(p => p.remote_id),
+          errors: []
+        }
+      })
+    });
+    const client = makeClient(api, dir);
+    await client.localStore.load();
+    const live = published(client.localStore, 'Live', 'remote-1');
+    client.localStore.deleteProduct(live.local_id);
+
+    const result = await client.push('agent-1');
+    assert.equal(result.success, true);
+    assert.deepEqual(api.calls.at(-1).body.manifest.products.map(p => p.action), ['delete']);
+    assert.deepEqual(JSON.parse(readFileSync(join(dir, 'store.json'), 'utf-8')).products, []);
+  } finally {
+    removeDir(dir);
+  }
+});
@@ -0,0 +1,153 @@
+// Passphrase-protected credential vault and encrypted exports (user-012)
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { AgentRuntime, KeySigner, defaultKeyFilePath } from '../dist/index.js';
+import { fakeApi, ok, BASE_URL, installFetch, tempDir, removeDir } from './helpers/fake-api.mjs';
+
+const TOKEN = 'header.eyJzdWIiOiJhZ2VudC0xIn0.signature';
+
+function agentApi() {
+  return fakeApi({
+    'GET /auth/me': () => ok({ id: 'agent-1', wallet_address: 'bc1q', display_name: 'Agent', trade: null, level: 1, xp: '0', credit_balance: '0' })
+  });
+}
+
+// A logged-in runtime with a wallet key file, vault not yet enabled
+async function loggedIn(dir) {
+  const signer = await KeySigner.createKeyFile(defaultKeyFilePath(dir));
+  const runtime = new AgentRuntime({ configDir: dir, apiUrl: BASE_URL });
+  await runtime.init();
+  assert.equal(await runtime.loadCredentials({ token: TOKEN, walletAddress: signer.address }), true);
+  return { runtime, signer };
+}
+
+test('enabling the vault takes the token, wallet and key off disk', async () => {
+  const dir = tempDir();
+  const restore = installFetch(agentApi());
+  try {
+    const { runtime, signer } = await loggedIn(dir);
+    const keyFile = readFileSync(defaultKeyFilePath(dir), 'utf-8');
+    await runtime.enableVault('correct horse');
+
+    const onDisk = readFileSync(runtime.getConfigPath(), 'utf-8');
+    assert.ok(!onDisk.includes(TOKEN));
+    assert.ok(!onDisk.includes(signer.address));
+    assert.ok(!onDisk.includes(keyFile.trim()));
+    assert.equal(existsSync(defaultKeyFilePath(dir)), false);
+    assert.equal(JSON.parse(onDisk).vault.kdf, 'scrypt');
+  } finally {
+    restore();
+    removeDir(dir);
+  }
+});
+
+test('a new runtime starts locked and unlocks with the passphrase', async () => {
+  const dir = tempDir();
+  const restore = installFetch(agentApi());
+  try {
+    const { runtime, signer } = await loggedIn(dir);
+    await runtime.enableVault('correct horse');
+
+    const locked = new AgentRuntime({ configDir: dir, apiUrl: BASE_URL });
+    await locked.init();
+    assert.equal(locked.isLocked(), true);
+    assert.equal(locked.isAuthenticated(), false);
+    assert.equal(locked.getSigner(), null);
+
+    assert.equal(await locked.unlock('wrong'), false);
+    assert.equal(await locked.unlock('correct horse'), true);
+    assert.equal(locked.isAuthenticated(), true);
+    assert.equal(locked.getSigner().address, signer.address);
+
+    const unlocked = new AgentRuntime({ configDir: dir, apiUrl: BASE_URL, passphrase: 'correct horse' });
+    await unlocked.init();
+    assert.equal(unlocked.isLocked(), false);
+    assert.equal(unlocked.getConfig().authToken, TOKEN);
+  } finally {
+    restore();
+    removeDir(dir);
+  }
+});
+
+test('a wrong configured passphrase is reported by login', async () => {
+  const dir = tempDir();
+  const restore = installFetch(agentApi());
+  try {
+    const { runtime } = await loggedIn(dir);
+    await runtime.enableVault('correct horse');
+
+    const wrong = new AgentRuntime({ configDir: dir, apiUrl: BASE_URL, passphrase: 'wrong' });
+    await wrong.init();
+    const result = await wrong.login();
+    assert.equal(result.success, false);
+    assert.match(result.error, /locked \(the configured passphrase failed: /);
+  } finally {
+    restore();
+    removeDir(dir);
+  }
+});
+
+test('unlocking and locking keep the client and its loaded store', async () => {
+  const dir = tempDir();
+  const api = agentApi();
+  const restore = installFetch(api);
+  try {
+    const { runtime } = await loggedIn(dir);
+    await runtime.enableVault('correct horse');
+    await runtime.client.localStore.load();
+    runtime.client.localStore.createProduct({ name: 'Pack', description: '', category_id: 'prompts', price: 1, delivery_type: 'download' });
+    await runtime.client.localStore.save();
+
+    const locked = new AgentRuntime({ configDir: dir, apiUrl: BASE_URL });
+    await locked.init();
+    await locked.client.localStore.load();
+    const client = locked.client;
+
+    await locked.unlock('correct horse');
+    assert.equal(locked.client, client);
+    assert.equal(client.localStore.getProducts().length, 1);
+    await client.getAgentInfo();
+    assert.equal(api.calls.at(-1).headers['Authorization'], `Bearer ${TOKEN}`);
+
+    await locked.lock();
+    assert.equal(locked.client, client);
+    await client.getAgentInfo();
+    assert.equal(api.calls.at(-1).headers['Authorization'], undefined);
+  } finally {
+    restore();
+    removeDir(dir);
+  }
+});
+
+test('encrypted exports need the passphrase to import', async () => {
+  const dir = tempDir();
+  const other = tempDir();
+  const restore = installFetch(agentApi());
+  try {
+    const { runtime, signer } = await loggedIn(dir);
+    const exported = runtime.exportCredentials('transfer phrase');
+    assert.ok(!Buffer.from(exported, 'base64').toString('utf-8').includes(TOKEN));
+
+    const target = new AgentRuntime({ configDir: other, apiUrl: BASE_URL });
+    await target.init();
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      assert.equal(await target.importCredentials(exported), false);
+      assert.equal(await target.importCredentials(exported, 'wrong'), false);
+    } finally {
+      console.error = originalError;
+    }
+    assert.equal(await target.importCredentials(exported, 'transfer phrase'), true);
+    assert.equal(target.getConfig().authToken, TOKEN);
+    assert.equal(target.getConfig().walletAddress, signer.address);
+    assert.equal(JSON.parse(readFileSync(join(other, 'config.json'), 'utf-8')).authToken, TOKEN);
+  } finally {
+    restore();
+    removeDir(dir);
+    removeDir(other);
+  }
+});